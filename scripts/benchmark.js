@@ -0,0 +1,108 @@
+/**
+ * @file benchmark.js
+ * @purpose Command-line benchmark of the transcription services and the consensus over a labeled dataset
+ * @phazzie-status working
+ * @dependencies vite (loads src/lib/benchmark.ts with the app's aliases), src/lib/benchmark.ts
+ *
+ *   npm run benchmark -- <dataset dir> [--out dir] [--replay | --record] [--fixtures dir]
+ *                        [--services a,b] [--mode strategy] [--prefer a,b] [--language code]
+ *                        [--baseline report.json] [--tolerance 0.01]
+ *
+ * Writes benchmark.json and benchmark.html to --out (benchmark-reports/<timestamp> by default).
+ * --replay runs the recorded fixtures only (no network, no API keys); --record saves the provider
+ * responses of a live run as fixtures. With --baseline, exits with code 1 when the consensus or a
+ * service's WER rose by more than --tolerance since that report. --mode is a consensus strategy
+ * (medoid by default); preferred-service-with-fallback takes the preferred services from --prefer.
+ *
+ *   npm run benchmark -- fixtures/benchmark --replay --fixtures fixtures/benchmark/recordings
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { createServer, loadEnv } from 'vite';
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: 'string' },
+    replay: { type: 'boolean', default: false },
+    record: { type: 'boolean', default: false },
+    fixtures: { type: 'string' },
+    services: { type: 'string' },
+    mode: { type: 'string', default: 'medoid' },
+    prefer: { type: 'string', default: '' },
+    language: { type: 'string', default: 'auto' },
+    baseline: { type: 'string' },
+    tolerance: { type: 'string', default: '0' }
+  }
+});
+
+const STRATEGIES = ['medoid', 'highest-confidence', 'word-vote', 'preferred-service-with-fallback'];
+const list = value => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const datasetDir = positionals[0];
+if (!datasetDir || (args.replay && args.record) || !STRATEGIES.includes(args.mode)
+  || (args.mode === 'preferred-service-with-fallback' && list(args.prefer).length === 0)) {
+  console.error(`Usage: npm run benchmark -- <dataset dir> [--out dir] [--replay | --record] [--fixtures dir] [--services a,b] [--mode ${STRATEGIES.join('|')}] [--prefer a,b] [--language code] [--baseline report.json] [--tolerance 0.01]`);
+  process.exit(2);
+}
+
+// API keys from .env like `vite dev`; the shell environment wins
+const env = { ...loadEnv('development', process.cwd(), ''), ...process.env };
+if (args.replay) env.TRANSCRIBE_MODE = 'replay';
+if (args.record) env.TRANSCRIBE_MODE = 'record';
+if (args.fixtures) env.TRANSCRIBE_FIXTURES_DIR = args.fixtures;
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error'
+});
+
+let exitCode = 0;
+try {
+  const benchmark = await server.ssrLoadModule('/src/lib/benchmark.ts');
+  const language = await server.ssrLoadModule('/src/lib/language.ts');
+  const requested = language.parseRequestedLanguage(args.language);
+  if ('error' in requested) throw new Error(requested.error);
+
+  const report = await benchmark.runBenchmark({
+    datasetDir: path.resolve(datasetDir),
+    env,
+    selection: args.services ? { services: list(args.services) } : {},
+    consensusMode: args.mode,
+    preferredServices: list(args.prefer),
+    language: requested.language,
+    onProgress: message => console.log(message)
+  });
+
+  const outDir = path.resolve(args.out ?? path.join('benchmark-reports', report.createdAt.replace(/[:.]/g, '-')));
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, 'benchmark.json'), JSON.stringify(report, null, 2));
+  await writeFile(path.join(outDir, 'benchmark.html'), benchmark.renderBenchmarkHtml(report));
+
+  const percent = rate => `${(rate * 100).toFixed(1)}%`;
+  console.log(`\n${report.files} files (${report.mode} mode), ${report.skipped.length} skipped`);
+  console.log(`consensus  WER ${percent(report.consensus.wer)}  CER ${percent(report.consensus.cer)}`);
+  for (const s of report.services) {
+    console.log(`${s.serviceName}  WER ${percent(s.wer)}  CER ${percent(s.cer)}  p50 ${s.latencyMs.p50}ms  failures ${percent(s.failureRate)}  cost $${s.estimatedCostUsd.toFixed(4)}`);
+  }
+  console.log(`Report: ${path.join(outDir, 'benchmark.html')}`);
+
+  if (args.baseline) {
+    const baseline = JSON.parse(await readFile(args.baseline, 'utf8'));
+    const regressions = benchmark.findRegressions(report, baseline, Number(args.tolerance) || 0);
+    for (const r of regressions) {
+      console.error(`Regression: ${r.subject} WER ${percent(r.baselineWer)} -> ${percent(r.wer)}`);
+    }
+    if (regressions.length > 0) exitCode = 1;
+    else console.log(`No WER regressions against ${args.baseline}.`);
+  }
+} catch (error) {
+  console.error(`Benchmark failed: ${error instanceof Error ? error.message : error}`);
+  exitCode = 1;
+} finally {
+  await server.close();
+}
+process.exit(exitCode);
@@ -0,0 +1,159 @@
+/**
+ * @file mock-streaming-server.js
+ * @purpose Local stand-in for the Deepgram and AssemblyAI live transcription WebSockets
+ * @phazzie-status working
+ * @dependencies ws
+ *
+ * Lets live microphone mode run without provider accounts or network access:
+ *   npm run mock:streaming
+ *   DEEPGRAM_STREAMING_URL=ws://localhost:8787/v1/listen
+ *   ASSEMBLYAI_STREAMING_URL=ws://localhost:8787/v3/ws
+ * (any non-empty DEEPGRAM_API_KEY / ASSEMBLYAI_API_KEY works). Whatever audio arrives, each provider
+ * "recognizes" one word of a fixed script per WORD_MS of audio, with a few provider-specific
+ * differences so the consensus has something to decide. The port is MOCK_STREAMING_PORT (8787).
+ */
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.MOCK_STREAMING_PORT) || 8787;
+const WORD_MS = 400;
+const WORDS_PER_SEGMENT = 5;
+
+const SCRIPT = 'the quick brown fox jumps over the lazy dog while the band plays a song about colour and light near the harbour'.split(' ');
+// Each provider mishears a couple of words differently
+const VARIANTS = {
+  deepgram: { colour: 'color', harbour: 'harbor' },
+  assemblyai: { band: 'bend', lazy: 'hazy' }
+};
+
+function scriptedWord(provider, index) {
+  const word = SCRIPT[index % SCRIPT.length];
+  return VARIANTS[provider][word] ?? word;
+}
+
+function formatText(words) {
+  const text = words.join(' ');
+  return text ? `${text[0].toUpperCase()}${text.slice(1)}.` : '';
+}
+
+/**
+ * Counts audio and reports how many whole words it covers; 16-bit mono PCM at `sampleRate`.
+ */
+function audioClock(sampleRate) {
+  let bytes = 0;
+  return {
+    add(length) {
+      bytes += length;
+    },
+    get wordsHeard() {
+      return Math.floor(((bytes / 2 / sampleRate) * 1000) / WORD_MS);
+    }
+  };
+}
+
+function deepgramSession(socket, params) {
+  const clock = audioClock(Number(params.get('sample_rate')) || 16000);
+  let segmentStart = 0; // index of the first word in the open window
+  let sent = 0;
+
+  const sendResult = (end, isFinal) => {
+    const words = [];
+    for (let i = segmentStart; i < end; i++) {
+      const word = scriptedWord('deepgram', i);
+      words.push({ word, punctuated_word: word, start: (i * WORD_MS) / 1000, end: ((i + 1) * WORD_MS) / 1000, confidence: 0.92 });
+    }
+    socket.send(JSON.stringify({
+      type: 'Results',
+      start: (segmentStart * WORD_MS) / 1000,
+      duration: ((end - segmentStart) * WORD_MS) / 1000,
+      is_final: isFinal,
+      channel: { alternatives: [{ transcript: words.map(w => w.word).join(' '), confidence: 0.92, words }] }
+    }));
+    if (isFinal) segmentStart = end;
+  };
+
+  socket.on('message', (data, isBinary) => {
+    if (!isBinary) {
+      const message = JSON.parse(data.toString());
+      if (message.type === 'CloseStream') {
+        if (sent > segmentStart) sendResult(sent, true);
+        socket.close(1000);
+      }
+      return;
+    }
+    clock.add(data.length);
+    while (sent < clock.wordsHeard) {
+      sent++;
+      sendResult(sent, sent - segmentStart >= WORDS_PER_SEGMENT);
+    }
+  });
+}
+
+function assemblyaiSession(socket, params) {
+  const clock = audioClock(Number(params.get('sample_rate')) || 16000);
+  let turnOrder = 0;
+  let turnStart = 0;
+  let sent = 0;
+
+  const sendTurn = (end, endOfTurn, formatted) => {
+    const words = [];
+    for (let i = turnStart; i < end; i++) {
+      words.push({ text: scriptedWord('assemblyai', i), start: i * WORD_MS, end: (i + 1) * WORD_MS, confidence: 0.9, word_is_final: true });
+    }
+    socket.send(JSON.stringify({
+      type: 'Turn',
+      turn_order: turnOrder,
+      end_of_turn: endOfTurn,
+      turn_is_formatted: formatted,
+      transcript: formatted ? formatText(words.map(w => w.text)) : words.map(w => w.text).join(' '),
+      words
+    }));
+  };
+  const endTurn = end => {
+    sendTurn(end, true, false);
+    sendTurn(end, true, true);
+    turnOrder++;
+    turnStart = end;
+  };
+
+  socket.send(JSON.stringify({ type: 'Begin', id: `mock-${Date.now()}`, expires_at: Math.floor(Date.now() / 1000) + 3600 }));
+  socket.on('message', (data, isBinary) => {
+    if (!isBinary) {
+      const message = JSON.parse(data.toString());
+      if (message.type === 'Terminate') {
+        if (sent > turnStart) endTurn(sent);
+        socket.send(JSON.stringify({ type: 'Termination', audio_duration_seconds: (sent * WORD_MS) / 1000 }));
+        socket.close(1000);
+      }
+      return;
+    }
+    clock.add(data.length);
+    while (sent < clock.wordsHeard) {
+      sent++;
+      if (sent - turnStart >= WORDS_PER_SEGMENT) endTurn(sent);
+      else sendTurn(sent, false, false);
+    }
+  });
+}
+
+const SESSIONS = { '/v1/listen': deepgramSession, '/v3/ws': assemblyaiSession };
+
+const server = new WebSocketServer({
+  port: PORT,
+  verifyClient: ({ req }, done) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (!SESSIONS[pathname]) done(false, 404, 'Not Found');
+    else if (!req.headers.authorization) done(false, 401, 'Unauthorized');
+    else done(true);
+  }
+});
+
+server.on('connection', (socket, req) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  console.log(`Mock streaming session: ${url.pathname}`);
+  SESSIONS[url.pathname](socket, url.searchParams);
+});
+
+server.on('listening', () => {
+  console.log(`Mock streaming server on ws://localhost:${PORT} (Deepgram: /v1/listen, AssemblyAI: /v3/ws)`);
+});
@@ -129,6 +129,9 @@ export interface UploadResult {
   /** Whether the file is ready for processing */
   readyForProcessing: boolean;
 
+  /** Too large to upload whole; transcribe it in chunks (chunkAudioFile). Only set for recordings. */
+  requiresChunking?: boolean;
+
   /** File metadata */
   metadata?: FileMetadata;
 }
@@ -0,0 +1,49 @@
+/**
+ * @file live.ts
+ * @purpose Message protocol between the browser and the /api/live WebSocket
+ * @phazzie-status working
+ * @dependencies processors.ts (StreamingSegment, ConsensusResult, ConsensusMode)
+ *
+ * The browser opens the socket, sends one `start` message, then 16-bit little-endian mono PCM at
+ * `sampleRate` as binary messages, and finally `stop`. The server answers `start` with `ready`
+ * (audio sent before it is dropped), relays every provider segment, sends a rolling consensus of
+ * the final segments so far, and ends with `done` once the providers returned their last segments.
+ */
+
+import type { ConsensusMode, ConsensusResult, StreamingSegment } from './processors';
+
+export interface LiveStartMessage {
+  type: 'start';
+  /** Double-submit CSRF token, compared with the csrfToken cookie sent with the upgrade. */
+  csrfToken: string;
+  sampleRate: number;
+  /** Subset of the streaming services to use; all of them when omitted. */
+  services?: string[];
+  /** Language code or 'auto'. */
+  language?: string;
+  /** Same formats as the `vocabulary` field of /api/transcribe. */
+  vocabulary?: string | string[];
+  consensusMode?: ConsensusMode;
+  /** Service names for 'preferred-service-with-fallback', most preferred first. */
+  preferredServices?: string[];
+}
+
+/** The request settings a live session shares with the upload form. */
+export type LiveSettings = Pick<LiveStartMessage, 'csrfToken' | 'language' | 'vocabulary' | 'consensusMode' | 'preferredServices'>;
+
+export interface LiveStopMessage {
+  type: 'stop';
+}
+
+export type LiveClientMessage = LiveStartMessage | LiveStopMessage;
+
+export type LiveServerMessage =
+  | { type: 'ready'; services: string[]; failedServices: Array<{ serviceName: string; error: string }> }
+  | { type: 'segment'; segment: StreamingSegment }
+  | { type: 'consensus'; result: ConsensusResult }
+  | { type: 'error'; message: string; serviceName?: string }
+  /** Last message; `result` is null when no service produced any final text. */
+  | { type: 'done'; result: ConsensusResult | null };
+
+/** Path of the live transcription WebSocket. */
+export const LIVE_SOCKET_PATH = '/api/live';
@@ -1,4 +1,4 @@
-import type { TranscriptionResult, ConsensusResult, Disagreement, ConsensusStats, AIReasoning, ReasoningStep } from './transcription';
+import type { TranscriptionResult, TranscriptionWord, TranscriptionSegment, ConsensusResult, StrategyOutcome, TranslationConsensus, EvaluationReport, TranscriptEvaluation, EvaluationEdit, LanguageReport, Disagreement, SpanAdjudication, ConsensusStats, AIReasoning, ReasoningStep } from './transcription';
 
 /**
  * Defines the standard interface for any AI transcription service.
@@ -14,12 +14,20 @@ export interface AudioProcessor {
    */
   isAvailable(): Promise<boolean>;
 
+  /**
+   * Makes a cheap authenticated request to the provider (e.g. listing models) to confirm the service
+   * is reachable and accepts the configured credentials. Must not transcribe anything or incur cost.
+   * @param options Only `signal` and `fetch` apply.
+   */
+  checkHealth(options?: ProcessingOptions): Promise<HealthProbe>;
+
   /**
    * The core method that sends an audio file to the AI service for transcription.
    * @param file The audio file to transcribe.
+   * @param options Per-call options; `signal` must abort every outstanding provider request.
    * @returns A promise that resolves to a standardized TranscriptionResult.
    */
-  processFile(file: File): Promise<TranscriptionResult>;
+  processFile(file: File, options?: ProcessingOptions): Promise<TranscriptionResult>;
 
   /**
    * Returns the estimated cost per minute for this service in USD.
@@ -33,6 +41,127 @@ export interface AudioProcessor {
   getSupportedFormats(): string[];
 }
 
+/** Outcome of a provider probe: reachable and authenticated, credentials rejected, or unreachable/failing. */
+export type HealthStatus = 'up' | 'auth-failed' | 'down';
+
+/** What `AudioProcessor.checkHealth` reports. */
+export interface HealthProbe {
+  status: HealthStatus;
+  /** HTTP status of the probe request, when one was received. */
+  httpStatus?: number;
+  error?: string;
+}
+
+/** A probe result as cached and reported by /api/health. */
+export interface ServiceHealth extends HealthProbe {
+  latencyMs: number;
+  /** ISO timestamp of the probe. */
+  checkedAt: string;
+}
+
+/**
+ * A processor whose provider can run a transcription as a background job, for recordings too long
+ * to finish within one request. Results arrive by webhook or are fetched later by id.
+ */
+export interface DeferredAudioProcessor extends AudioProcessor {
+  /**
+   * Starts a provider job and returns its id. `source` is the audio itself or a public URL the provider downloads.
+   */
+  submitJob(source: File | string, options?: ProcessingOptions, webhook?: JobWebhook): Promise<string>;
+
+  /**
+   * The job's result, or null while the provider is still working. Throws when the job failed.
+   */
+  fetchJobResult(jobId: string, options?: ProcessingOptions): Promise<TranscriptionResult | null>;
+}
+
+/** Where the provider should report job completion, and the header value that authenticates the call. */
+export interface JobWebhook {
+  url: string;
+  authHeaderName: string;
+  authHeaderValue: string;
+}
+
+export function supportsJobs(processor: AudioProcessor): processor is DeferredAudioProcessor {
+  const candidate = processor as Partial<DeferredAudioProcessor>;
+  return typeof candidate.submitJob === 'function' && typeof candidate.fetchJobResult === 'function';
+}
+
+/**
+ * A processor whose provider transcribes live audio over a streaming connection, returning interim
+ * and final segments as the audio arrives.
+ */
+export interface StreamingAudioProcessor extends AudioProcessor {
+  /**
+   * Opens a provider stream; resolves once the provider accepted the connection.
+   * Audio must be 16-bit little-endian mono PCM at `options.sampleRate`.
+   */
+  openStream(options: StreamingOptions): Promise<TranscriptionStream>;
+}
+
+export interface StreamingOptions {
+  sampleRate: number;
+  /** Normalized language code, or 'auto' / undefined for the provider default. */
+  language?: string;
+  vocabulary?: string[];
+  /** Closes the provider connection. */
+  signal?: AbortSignal;
+  /** Called for every interim and final segment, in order. */
+  onSegment(segment: StreamingSegment): void;
+  /** Called when the stream fails after it was opened; no further segments follow. */
+  onError(error: Error): void;
+}
+
+/** An open provider stream. */
+export interface TranscriptionStream {
+  sendAudio(pcm: Uint8Array): void;
+  /** Tells the provider the audio has ended and resolves once its last final segment arrived. */
+  finish(): Promise<void>;
+  /** Closes the connection without waiting for outstanding segments. */
+  close(): void;
+}
+
+/**
+ * A stretch of live speech from one provider. Interim segments are replaced by later segments
+ * with the same `segmentId` until one arrives with `isFinal`.
+ */
+export interface StreamingSegment {
+  serviceName: string;
+  segmentId: string;
+  text: string;
+  isFinal: boolean;
+  /** Offsets from the start of the stream, in milliseconds. */
+  startMs: number;
+  endMs: number;
+  words: TranscriptionWord[];
+  confidence?: number;
+}
+
+export function supportsStreaming(processor: AudioProcessor): processor is StreamingAudioProcessor {
+  return typeof (processor as Partial<StreamingAudioProcessor>).openStream === 'function';
+}
+
+/**
+ * Per-call options for `AudioProcessor.processFile`.
+ */
+export interface ProcessingOptions {
+  /** Aborts in-flight provider requests and polling (timeout, client disconnect, user cancel). */
+  signal?: AbortSignal;
+  /** Replaces the global `fetch` for provider calls (used by record/replay); implementations must use it. */
+  fetch?: typeof fetch;
+  /** Normalized language code from src/lib/language.ts, or 'auto' to let the provider detect it. */
+  language?: string;
+  /** Custom vocabulary (product names, jargon) to bias recognition toward; see src/lib/vocabulary.ts. */
+  vocabulary?: string[];
+  /**
+   * 'translate' returns an English translation of the speech instead of a transcript. Only passed to
+   * processors whose registration declares `capabilities.translation`. Defaults to 'transcribe'.
+   */
+  task?: ProcessingTask;
+}
+
+export type ProcessingTask = 'transcribe' | 'translate';
+
 // --- Type-safe Configuration for Processors ---
 
 export interface BaseProcessorConfig {
@@ -48,12 +177,16 @@ export interface WhisperConfig extends BaseProcessorConfig {
 }
 
 export interface AssemblyAIConfig extends BaseProcessorConfig {
+  /** Live transcription WebSocket URL; defaults to AssemblyAI's (override for the mock server). */
+  streamingEndpoint?: string;
   options?: {
     language?: string; // Language code
   };
 }
 
 export interface DeepgramConfig extends BaseProcessorConfig {
+  /** Live transcription WebSocket URL; defaults to Deepgram's (override for the mock server). */
+  streamingEndpoint?: string;
   options?: {
     model?: 'nova-2' | 'base' | 'enhanced';
     language?: string; // BCP-47 format
@@ -80,13 +213,138 @@ export interface GeminiConfig extends BaseProcessorConfig {
   };
 }
 
+/**
+ * Any server exposing OpenAI's `/v1/audio/transcriptions` API (e.g. whisper.cpp, faster-whisper).
+ * `endpoint` is the API base URL (e.g. `http://localhost:8000/v1`); `apiKey` is optional.
+ */
+export interface OpenAICompatibleConfig extends BaseProcessorConfig {
+  /** Distinguishes instances in results and consensus (e.g. "Local large-v3"). */
+  serviceName?: string;
+  options?: {
+    model?: string;
+    language?: string; // ISO 639-1 format
+    /** Servers without `verbose_json` support can fall back to plain `json` (no word timings). */
+    responseFormat?: 'verbose_json' | 'json';
+    /** Defaults to 0 for self-hosted servers. */
+    costPerMinute?: number;
+  };
+}
+
+// --- Processor Registration ---
+
+/** Environment variables as read by processor registrations (usually `process.env`). */
+export type ProcessorEnv = Record<string, string | undefined>;
+
+/**
+ * What a processor implementation can do, as exposed to routes, the health endpoint and the UI.
+ */
+export interface ProcessorCapabilities {
+  /** Reports word-level timestamps in `TranscriptionResult.words`. */
+  timestamps: boolean;
+  /** Labels speakers on words. */
+  diarization: boolean;
+  /** Accepts a language hint. */
+  languageHints: boolean;
+  /** Detects the spoken language itself and reports it in `metadata.language`. */
+  languageDetection: boolean;
+  /** Can bias recognition toward a custom vocabulary. */
+  vocabularyBoosting: boolean;
+  /** Can translate speech into English natively (`ProcessingOptions.task: 'translate'`). */
+  translation: boolean;
+  /** Transcribes live audio (`StreamingAudioProcessor`). */
+  streaming: boolean;
+  /** Largest file the provider accepts, in bytes. */
+  maxFileSizeBytes: number;
+  /** Accepted formats as file extensions (e.g. '.mp3'). */
+  acceptedFormats: string[];
+}
+
+/** One configuration value a processor reads from the environment. */
+export interface ProcessorConfigField {
+  /** The config property the value is assigned to. */
+  key: string;
+  envVar: string;
+  required: boolean;
+  description: string;
+}
+
+/**
+ * One provider option a client may set per request (e.g. Deepgram's `smart_format`).
+ * Validated values are merged into the processor config's `options` for that request.
+ */
+export interface ProcessorOptionField {
+  /** Key in the config's `options` object. */
+  key: string;
+  label: string;
+  type: 'string' | 'number' | 'boolean' | 'enum';
+  description?: string;
+  /** Allowed values for 'enum'. */
+  values?: string[];
+  /** Bounds for 'number'. */
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  /** Regular expression source a 'string' must match. */
+  pattern?: string;
+}
+
+/**
+ * How an AudioProcessor implementation makes itself known to the registry.
+ * Implementations call `registerProcessor` with one of these at module load.
+ */
+export interface ProcessorRegistration<C extends BaseProcessorConfig = BaseProcessorConfig> {
+  /** Stable identifier (e.g. 'whisper'), used in requests and fixtures. */
+  id: string;
+  displayName: string;
+  configSchema: ProcessorConfigField[];
+  capabilities: ProcessorCapabilities;
+  /** Options a request may override; anything else is rejected. */
+  optionsSchema?: ProcessorOptionField[];
+  /**
+   * Builds zero or more configs from the environment; an empty array means "not configured".
+   * Defaults to reading `configSchema` and yielding one config when every required variable is set.
+   */
+  configure?(env: ProcessorEnv): C[];
+  create(config: C): AudioProcessor;
+}
+
+/** A live processor together with the registration and config it was created from. */
+export interface ProcessorInstance {
+  registration: ProcessorRegistration<any>;
+  config: BaseProcessorConfig;
+  processor: AudioProcessor;
+}
+
+/** Serializable summary of a registration, safe to send to the browser (never contains secrets). */
+export interface ProcessorDescriptor {
+  id: string;
+  displayName: string;
+  configured: boolean;
+  /** Service names of the instances created from the current environment. */
+  serviceNames: string[];
+  capabilities: ProcessorCapabilities;
+  /** Per-request options the UI may offer for this processor. */
+  options: ProcessorOptionField[];
+  config: Array<{ envVar: string; required: boolean; description: string; present: boolean }>;
+}
+
+/**
+ * Which services a request uses and the provider options it sets for each, keyed by service name.
+ * Omitting `services` means every configured service.
+ */
+export interface ProcessorSelection {
+  services?: string[];
+  serviceOptions?: Record<string, Record<string, unknown>>;
+}
+
 /** A union type for any possible processor configuration. */
 export type ProcessorConfig =
   | WhisperConfig
   | AssemblyAIConfig
   | DeepgramConfig
   | ElevenLabsConfig
-  | GeminiConfig;
+  | GeminiConfig
+  | OpenAICompatibleConfig;
 
 
 // --- Interfaces for Handling Multiple Processor Results ---
@@ -110,14 +368,66 @@ export interface FailedService {
 
 // --- Interface for the Consensus Engine ---
 
+/**
+ * How the consensus text is produced (the consensus strategies, see src/lib/strategy-registry.ts):
+ * - 'medoid': pick the single service transcript most similar to all others.
+ * - 'highest-confidence': pick the transcript of the service that reported the highest confidence.
+ * - 'word-vote': align all transcripts word by word and vote per slot (ROVER-style fusion);
+ *   the result may not match any single service.
+ * - 'preferred-service-with-fallback': pick the first of the preferred services that returned a
+ *   transcript, or the medoid when none did.
+ */
+export type ConsensusMode = 'medoid' | 'highest-confidence' | 'word-vote' | 'preferred-service-with-fallback';
+
+export const CONSENSUS_MODES: readonly ConsensusMode[] = ['medoid', 'highest-confidence', 'word-vote', 'preferred-service-with-fallback'];
+
+/**
+ * Rewrites applied to transcripts before they are scored and aligned (never to the output text);
+ * see src/lib/text-normalization.ts.
+ */
+export type NormalizationRule = 'casing' | 'punctuation' | 'contractions' | 'numbers' | 'abbreviations' | 'disfluencies';
+
+export const NORMALIZATION_RULES: readonly NormalizationRule[] = ['casing', 'punctuation', 'contractions', 'numbers', 'abbreviations', 'disfluencies'];
+
+/** Per-call options for a comparison engine. */
+export interface ComparisonOptions {
+  /** Strategy to run; read by the strategy registry's engine. 'medoid' when omitted. */
+  mode?: ConsensusMode;
+  /** Service names in order of preference, for 'preferred-service-with-fallback'. */
+  preferredServices?: string[];
+  /** Custom vocabulary; readings that spell a term exactly are preferred where services disagree. */
+  vocabulary?: string[];
+  /** Normalizations to apply when comparing; CONSENSUS_CONFIG.NORMALIZATION_RULES when omitted. */
+  normalization?: readonly NormalizationRule[];
+  /**
+   * Reliability weight per service name from past outcomes (1 = average; missing services count as 1).
+   * Scales each service's say in candidate scoring and word votes, and breaks ties.
+   */
+  serviceWeights?: Record<string, number>;
+}
+
 /**
  * Defines the interface for an algorithm that compares multiple AI transcriptions
  * and produces a single, high-quality consensus transcription.
  */
 export interface ComparisonEngine {
-  compareTranscriptions(results: TranscriptionResult[]): ConsensusResult;
+  compareTranscriptions(results: TranscriptionResult[], options?: ComparisonOptions): ConsensusResult;
 }
 
+/**
+ * A consensus strategy as registered with src/lib/strategy-registry.ts.
+ */
+export interface ConsensusStrategyRegistration {
+  id: ConsensusMode;
+  displayName: string;
+  /** One sentence for the UI. */
+  description: string;
+  engine: ComparisonEngine;
+}
+
+/** Serializable description of a registered strategy for the UI. */
+export type ConsensusStrategyDescriptor = Omit<ConsensusStrategyRegistration, 'engine'>;
+
 // --- Convenience Re-exports ---
 
-export type { TranscriptionResult, ConsensusResult, Disagreement, ConsensusStats, AIReasoning, ReasoningStep };
\ No newline at end of file
+export type { TranscriptionResult, TranscriptionWord, TranscriptionSegment, ConsensusResult, StrategyOutcome, TranslationConsensus, EvaluationReport, TranscriptEvaluation, EvaluationEdit, LanguageReport, Disagreement, SpanAdjudication, ConsensusStats, AIReasoning, ReasoningStep };
\ No newline at end of file
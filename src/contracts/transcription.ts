@@ -19,6 +19,36 @@ export type AudioFormat = typeof SUPPORTED_AUDIO_FORMATS[number];
  */
 export const MAX_FILE_SIZE_BYTES = 25 * 1024 * 1024; // 25MB
 
+/**
+ * A single recognized word with its position in the audio.
+ * Every processor maps its provider-specific word output into this shape so that
+ * subtitles, seeking and chunk stitching work the same way for all services.
+ */
+export interface TranscriptionWord {
+  /** The word as written in the transcript (may carry attached punctuation). */
+  token: string;
+  /** Start of the word in the audio, in milliseconds. */
+  startMs: number;
+  /** End of the word in the audio, in milliseconds. */
+  endMs: number;
+  /** Confidence score from 0.0 (low) to 1.0 (high). Optional. */
+  confidence?: number;
+  /** Speaker label when the service performs diarization. Optional. */
+  speaker?: string;
+}
+
+/**
+ * A stretch of speech (usually a sentence or speaker turn) as reported by services that segment
+ * their transcript rather than timing each word.
+ */
+export interface TranscriptionSegment {
+  text: string;
+  startMs: number;
+  endMs: number;
+  /** Speaker label when the service performs diarization. Optional. */
+  speaker?: string;
+}
+
 /**
  * The standardized output from ANY AI transcription service.
  * All processors must return data in this format.
@@ -27,6 +57,10 @@ export interface TranscriptionResult {
   id: string;
   serviceName: string;
   text: string;
+  /** Word-level timings in transcript order. Empty when the service does not report them. */
+  words: TranscriptionWord[];
+  /** Segment timings in transcript order, for services that report segments. Optional. */
+  segments?: TranscriptionSegment[];
   /** Confidence score from 0.0 (low) to 1.0 (high). Optional. */
   confidence?: number;
   processingTimeMs: number;
@@ -48,15 +82,137 @@ export interface ConsensusResult {
   disagreements: Disagreement[];
   stats: ConsensusStats;
   reasoning: AIReasoning;
+  /** Requested and detected language per service (set by /api/transcribe). */
+  languages?: LanguageReport;
+  /** English translation with its own consensus, when translation was requested. */
+  translation?: TranslationConsensus;
+  /** Error rates against the reference transcript, when the request included one. */
+  evaluation?: EvaluationReport;
+  /** The same results under every strategy the request asked to compare, the chosen one first. */
+  strategies?: StrategyOutcome[];
+  /** Id for POST /api/corrections, when the server kept the service transcripts for a correction. */
+  correctionId?: string;
 }
 
 /**
- * Represents a specific point of difference between transcription results.
+ * What one consensus strategy made of the results, for side-by-side comparison.
+ */
+export interface StrategyOutcome {
+  /** The strategy's ConsensusMode. */
+  strategy: string;
+  finalText: string;
+  consensusConfidence: number;
+  disagreementCount: number;
+  /** The strategy's own summary of how it chose the text. */
+  finalReasoning: string;
+  /** WER against the reference transcript, when the request included one. */
+  wer?: number;
+}
+
+/**
+ * Consensus over the services' English translations of the same audio.
+ */
+export interface TranslationConsensus extends ConsensusResult {
+  /** Always 'en' for now. */
+  targetLanguage: string;
+}
+
+/**
+ * One step of the word alignment between the reference and a transcript. Consecutive correct
+ * words are merged into one 'match'.
+ */
+export interface EvaluationEdit {
+  op: 'match' | 'substitution' | 'insertion' | 'deletion';
+  /** Reference wording; absent for insertions. */
+  reference?: string;
+  /** Transcript wording; absent for deletions. */
+  hypothesis?: string;
+}
+
+/**
+ * Word and character error rates of one transcript against the reference.
+ */
+export interface TranscriptEvaluation {
+  /** (substitutions + insertions + deletions) / referenceWords; can exceed 1. */
+  wer: number;
+  /** Character edits along the word alignment / reference characters. */
+  cer: number;
+  substitutions: number;
+  insertions: number;
+  deletions: number;
+  referenceWords: number;
+  edits: EvaluationEdit[];
+}
+
+/**
+ * Every service and the consensus measured against a reference transcript supplied with the request.
+ */
+export interface EvaluationReport {
+  consensus: TranscriptEvaluation;
+  byService: Record<string, TranscriptEvaluation>;
+  /** Service with the lowest WER. */
+  bestService: string;
+  /** Consensus WER minus the best service's WER; negative when the consensus is better. */
+  werDeltaVsBest: number;
+}
+
+/**
+ * Language each service transcribed in, compared against the requested (or majority detected) language.
+ */
+export interface LanguageReport {
+  /** 'auto' or the normalized code the user asked for, e.g. 'en' or 'pt-BR'. */
+  requested: string;
+  /** Language results are expected in: the requested one, or the one most services detected. */
+  expected?: string;
+  byService: Record<string, {
+    /** The provider's own value, e.g. 'english', 'en_us', 'eng'. */
+    reported?: string;
+    /** `reported` normalized to an ISO 639-1 base code. */
+    detected?: string;
+    /** Language the service was told to use; undefined when it auto-detected. */
+    hinted?: string;
+  }>;
+  /** Services whose detected language differs from `expected`. */
+  mismatchedServices: string[];
+  /** Mismatched services left out of the consensus. */
+  excludedServices: string[];
+}
+
+/**
+ * One contested span: a run of consecutive word positions where the services do not all agree.
  */
 export interface Disagreement {
+  /** Same as `wordIndex`; kept for clients written against the original whole-text shape. */
   position: number;
+  /** Index of the first consensus word in the span. */
+  wordIndex: number;
+  /** Number of consensus words in the span; 0 when the consensus omits words other services heard. */
+  wordCount: number;
+  /** Character offsets of the span in `finalText` (equal when `wordCount` is 0). */
+  charStart: number;
+  charEnd: number;
+  /** Audio time range of the span, when any service reported word timings for it. */
+  startMs?: number;
+  endMs?: number;
+  /** Each service's wording for the span ('' when it has no words there); the consensus wording is under 'consensus'. */
   serviceTexts: Record<string, string>;
+  /** 0..1: share of services disagreeing with the consensus reading, averaged over the span. */
   severity: number;
+  /** A language model's verdict, when the span was adjudicated. */
+  adjudication?: SpanAdjudication;
+}
+
+/**
+ * A language model's choice among the services' wordings of a contested span. The model only picks
+ * a candidate; the wording always comes from a service.
+ */
+export interface SpanAdjudication {
+  /** True when the pick replaced the consensus reading, false when it confirmed it. */
+  applied: boolean;
+  /** The consensus reading before adjudication. */
+  previousText: string;
+  /** The model's explanation of its choice. */
+  rationale: string;
 }
 
 /**
@@ -67,6 +223,14 @@ export interface ConsensusStats {
   servicesUsed: number;
   averageConfidence: number;
   disagreementCount: number;
+  /** Audio duration the costs are based on, in seconds (set by /api/transcribe). */
+  audioDurationSeconds?: number;
+  /** How the duration was obtained, e.g. 'wav-header', 'mp3-xing', 'provider-reported', 'size-estimate'. */
+  durationSource?: string;
+  /** Cost in USD of each service that returned a result. */
+  costByService?: Record<string, number>;
+  /** Sum of `costByService`, in USD. */
+  totalCostUsd?: number;
 }
 
 // --- AI Reasoning ---
@@ -104,12 +268,28 @@ export function validateTranscriptionResult(result: unknown): result is Transcri
     typeof r.id === 'string' &&
     typeof r.serviceName === 'string' &&
     typeof r.text === 'string' &&
+    Array.isArray(r.words) && r.words.every(validateTranscriptionWord) &&
     (typeof r.confidence === 'undefined' || (typeof r.confidence === 'number' && r.confidence >= 0 && r.confidence <= 1)) &&
     typeof r.processingTimeMs === 'number' && r.processingTimeMs >= 0 &&
     r.timestamp instanceof Date
   );
 }
 
+/**
+ * Validates a TranscriptionWord object at runtime.
+ */
+export function validateTranscriptionWord(word: unknown): word is TranscriptionWord {
+  if (!word || typeof word !== 'object') return false;
+  const w = word as Record<string, unknown>;
+  return (
+    typeof w.token === 'string' &&
+    typeof w.startMs === 'number' && w.startMs >= 0 &&
+    typeof w.endMs === 'number' && w.endMs >= w.startMs &&
+    (typeof w.confidence === 'undefined' || (typeof w.confidence === 'number' && w.confidence >= 0 && w.confidence <= 1)) &&
+    (typeof w.speaker === 'undefined' || typeof w.speaker === 'string')
+  );
+}
+
 /**
  * Validates a ConsensusResult object at runtime.
  */
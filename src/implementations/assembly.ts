@@ -1,14 +1,39 @@
-import type { AudioProcessor, AssemblyAIConfig } from '../contracts/processors';
-import type { TranscriptionResult } from '../contracts/transcription';
+import type {
+  AssemblyAIConfig,
+  DeferredAudioProcessor,
+  HealthProbe,
+  JobWebhook,
+  ProcessingOptions,
+  StreamingAudioProcessor,
+  StreamingOptions,
+  TranscriptionStream
+} from '../contracts/processors';
+import type { TranscriptionResult, TranscriptionWord } from '../contracts/transcription';
+import { LANGUAGE_OPTION, registerProcessor } from '../lib/processor-registry';
+import { resolveLanguage, toAssemblyAI } from '../lib/language';
+import { PERFORMANCE_CONFIG } from '../lib/config';
+import { providerHttpError, sleep, wrapProcessorError } from '../lib/retry';
+import { probeHttp } from '../lib/health';
+import { openProviderSocket, socketStream } from '../lib/provider-stream';
+
+// Based on AssemblyAI API documentation.
+const SUPPORTED_FORMATS = ['.mp3', '.wav', '.m4a', '.webm', '.flac'];
 
 const UPLOAD_ENDPOINT = 'https://api.assemblyai.com/v2/upload';
 const TRANSCRIPT_ENDPOINT = 'https://api.assemblyai.com/v2/transcript';
+const STREAMING_ENDPOINT = 'wss://streaming.assemblyai.com/v3/ws';
+
+// Polling inside processFile: 1s, 2s, 4s, then every 5s until the service time budget runs out.
+const POLL_INITIAL_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 5000;
 
 /**
  * Implements the AudioProcessor interface for AssemblyAI.
  * This processor uses a two-step process: upload and transcribe with polling.
+ * Long recordings can instead run as jobs (`submitJob` / `fetchJobResult`) that report back by webhook.
+ * Live audio goes through the Universal Streaming WebSocket API (`openStream`).
  */
-export class AssemblyAIProcessor implements AudioProcessor {
+export class AssemblyAIProcessor implements DeferredAudioProcessor, StreamingAudioProcessor {
   readonly serviceName = 'AssemblyAI';
   private config: AssemblyAIConfig;
 
@@ -20,7 +45,15 @@ export class AssemblyAIProcessor implements AudioProcessor {
     return !!this.config.apiKey;
   }
 
-  async processFile(file: File): Promise<TranscriptionResult> {
+  async checkHealth(options: ProcessingOptions = {}): Promise<HealthProbe> {
+    if (!this.config.apiKey) {
+      return { status: 'auth-failed', error: 'AssemblyAI API key not configured.' };
+    }
+    // Listing one transcript is free and needs a valid key
+    return probeHttp(`${TRANSCRIPT_ENDPOINT}?limit=1`, { headers: { 'authorization': this.config.apiKey } }, options);
+  }
+
+  async processFile(file: File, options: ProcessingOptions = {}): Promise<TranscriptionResult> {
     if (!this.config.apiKey) {
       throw new Error('AssemblyAI API key not configured.');
     }
@@ -29,40 +62,85 @@ export class AssemblyAIProcessor implements AudioProcessor {
       const startTime = Date.now();
 
       // Step 1: Upload the audio file to get a URL.
-      const uploadUrl = await this.uploadFile(file);
+      const uploadUrl = await this.uploadFile(file, options);
 
       // Step 2: Request transcription for the uploaded file.
-      const transcriptId = await this.requestTranscription(uploadUrl);
+      const transcriptId = await this.requestTranscription(uploadUrl, options);
 
       // Step 3: Poll for the transcription result.
-      const result = await this.pollForResult(transcriptId);
+      const result = await this.pollForResult(transcriptId, options);
 
-      const processingTime = Date.now() - startTime;
+      return this.toTranscriptionResult(result, Date.now() - startTime);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`AssemblyAI processor error: ${errorMessage}`);
+      throw wrapProcessorError(error, `AssemblyAI processor failed: ${errorMessage}`);
+    }
+  }
 
-      return {
-        id: `assembly-${Date.now()}`,
-        serviceName: this.serviceName,
-        text: result.text,
-        confidence: result.confidence,
-        processingTimeMs: processingTime,
-        timestamp: new Date(),
-        metadata: {
-          model: 'assembly-ai-best', // AssemblyAI doesn't specify model versions in the response
-          language: result.language_code,
-          wordCount: result.words.length,
-          rawResponse: result // Include the raw response for more details if needed
-        }
-      };
+  async submitJob(source: File | string, options: ProcessingOptions = {}, webhook?: JobWebhook): Promise<string> {
+    if (!this.config.apiKey) {
+      throw new Error('AssemblyAI API key not configured.');
+    }
+
+    try {
+      // A public URL goes straight to AssemblyAI, so large remote files are never uploaded by us.
+      const audioUrl = typeof source === 'string' ? source : await this.uploadFile(source, options);
+      return await this.requestTranscription(audioUrl, options, webhook);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error(`AssemblyAI processor error: ${errorMessage}`);
-      throw new Error(`AssemblyAI processor failed: ${errorMessage}`);
+      throw wrapProcessorError(error, `AssemblyAI processor failed: ${errorMessage}`);
     }
   }
 
-  private async uploadFile(file: File): Promise<string> {
-    const response = await fetch(UPLOAD_ENDPOINT, {
+  async fetchJobResult(jobId: string, options: ProcessingOptions = {}): Promise<TranscriptionResult | null> {
+    if (!this.config.apiKey) {
+      throw new Error('AssemblyAI API key not configured.');
+    }
+
+    try {
+      const result = await this.fetchTranscript(jobId, options);
+      if (result.status === 'completed') {
+        // Time spent at AssemblyAI, from job creation to completion
+        const createdAt = Date.parse(result.created ?? '');
+        return this.toTranscriptionResult(result, Number.isNaN(createdAt) ? 0 : Math.max(0, Date.now() - createdAt));
+      }
+      if (result.status === 'error') {
+        throw new Error(`Transcription failed: ${result.error}`);
+      }
+      return null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`AssemblyAI processor error: ${errorMessage}`);
+      throw wrapProcessorError(error, `AssemblyAI processor failed: ${errorMessage}`);
+    }
+  }
+
+  private toTranscriptionResult(result: any, processingTimeMs: number): TranscriptionResult {
+    return {
+      id: `assembly-${Date.now()}`,
+      serviceName: this.serviceName,
+      text: result.text ?? '',
+      words: this.mapWords(result.words),
+      confidence: result.confidence,
+      processingTimeMs,
+      timestamp: new Date(),
+      metadata: {
+        model: 'assembly-ai-best', // AssemblyAI doesn't specify model versions in the response
+        language: result.language_code,
+        wordCount: result.words?.length || 0,
+        durationSeconds: result.audio_duration,
+        transcriptId: result.id,
+        rawResponse: result // Include the raw response for more details if needed
+      }
+    };
+  }
+
+  private async uploadFile(file: File, options: ProcessingOptions): Promise<string> {
+    const response = await (options.fetch ?? fetch)(UPLOAD_ENDPOINT, {
       method: 'POST',
+      signal: options.signal,
       headers: {
         'authorization': this.config.apiKey!,
         'content-type': 'application/octet-stream'
@@ -71,47 +149,58 @@ export class AssemblyAIProcessor implements AudioProcessor {
     });
 
     if (!response.ok) {
-      throw new Error(`Upload failed with status ${response.status}`);
+      throw await providerHttpError('Upload failed', response);
     }
 
     const { upload_url } = await response.json();
     return upload_url;
   }
 
-  private async requestTranscription(audioUrl: string): Promise<string> {
-    const response = await fetch(TRANSCRIPT_ENDPOINT, {
+  private async requestTranscription(audioUrl: string, options: ProcessingOptions, webhook?: JobWebhook): Promise<string> {
+    const language = resolveLanguage(this.config.options?.language, options.language);
+    const response = await (options.fetch ?? fetch)(TRANSCRIPT_ENDPOINT, {
       method: 'POST',
+      signal: options.signal,
       headers: {
         'authorization': this.config.apiKey!,
         'content-type': 'application/json'
       },
       body: JSON.stringify({
         audio_url: audioUrl,
-        language_code: this.config.options?.language || 'en'
+        // Without a language, let AssemblyAI detect it instead of assuming English.
+        ...(language ? { language_code: toAssemblyAI(language) } : { language_detection: true }),
+        ...(options.vocabulary?.length ? { word_boost: options.vocabulary, boost_param: 'high' } : {}),
+        ...(webhook ? {
+          webhook_url: webhook.url,
+          webhook_auth_header_name: webhook.authHeaderName,
+          webhook_auth_header_value: webhook.authHeaderValue
+        } : {})
       })
     });
 
     if (!response.ok) {
-      throw new Error(`Transcription request failed with status ${response.status}`);
+      throw await providerHttpError('Transcription request failed', response);
     }
 
     const { id } = await response.json();
     return id;
   }
 
-  private async pollForResult(transcriptId: string): Promise<any> {
-    const pollingEndpoint = `${TRANSCRIPT_ENDPOINT}/${transcriptId}`;
-    const maxAttempts = 30; // Poll for 30 seconds
-    const delay = 1000;
+  /**
+   * Polls with backoff until the transcript completes. The caller's signal (normally the service
+   * time budget) ends polling; without one it stops after SERVICE_TIMEOUT_MS. Recordings that need
+   * longer should run as jobs.
+   */
+  private async pollForResult(transcriptId: string, options: ProcessingOptions): Promise<any> {
+    const deadline = Date.now() + PERFORMANCE_CONFIG.SERVICE_TIMEOUT_MS;
+    let delay = POLL_INITIAL_DELAY_MS;
 
-    for (let i = 0; i < maxAttempts; i++) {
-      await new Promise(resolve => setTimeout(resolve, delay));
-
-      const response = await fetch(pollingEndpoint, {
-        headers: { 'authorization': this.config.apiKey! }
-      });
-      const result = await response.json();
+    while (Date.now() + delay <= deadline) {
+      // Stops polling (and billing for a result nobody will read) as soon as the caller aborts.
+      await sleep(delay, options.signal);
+      delay = Math.min(delay * 2, POLL_MAX_DELAY_MS);
 
+      const result = await this.fetchTranscript(transcriptId, options);
       if (result.status === 'completed') {
         return result;
       }
@@ -120,7 +209,84 @@ export class AssemblyAIProcessor implements AudioProcessor {
       }
     }
 
-    throw new Error('Transcription polling timed out after 30 seconds.');
+    throw new Error(`Transcription polling timed out after ${PERFORMANCE_CONFIG.SERVICE_TIMEOUT_MS / 1000} seconds; use a job for long recordings.`);
+  }
+
+  private async fetchTranscript(transcriptId: string, options: ProcessingOptions): Promise<any> {
+    const response = await (options.fetch ?? fetch)(`${TRANSCRIPT_ENDPOINT}/${transcriptId}`, {
+      headers: { 'authorization': this.config.apiKey! },
+      signal: options.signal
+    });
+    if (!response.ok) {
+      throw await providerHttpError('Polling failed', response);
+    }
+    return response.json();
+  }
+
+  /**
+   * Streams PCM to AssemblyAI's Universal Streaming API. Each turn is updated as words arrive; it is
+   * final once AssemblyAI ends it and sends the formatted (punctuated) version. The streaming model
+   * is English-only, so `options.language` is not passed on.
+   */
+  async openStream(options: StreamingOptions): Promise<TranscriptionStream> {
+    if (!this.config.apiKey) {
+      throw new Error('AssemblyAI API key not configured.');
+    }
+    const params = new URLSearchParams({
+      sample_rate: String(options.sampleRate),
+      encoding: 'pcm_s16le',
+      format_turns: 'true'
+    });
+    if (options.vocabulary?.length) params.set('keyterms_prompt', JSON.stringify(options.vocabulary));
+
+    const socket = await openProviderSocket(
+      'AssemblyAI streaming',
+      `${this.config.streamingEndpoint || STREAMING_ENDPOINT}?${params}`,
+      { 'Authorization': this.config.apiKey },
+      options.signal
+    );
+
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) return;
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (message.type !== 'Turn') return;
+      const words = this.mapWords(message.words);
+      const text = String(message.transcript ?? '').trim();
+      if (!text && words.length === 0) return;
+      const confidences = words.map(w => w.confidence).filter((c): c is number => c !== undefined);
+      options.onSegment({
+        serviceName: this.serviceName,
+        segmentId: `assemblyai-${message.turn_order ?? 0}`,
+        // Unformatted turns only carry words until AssemblyAI sends the turn's transcript
+        text: text || words.map(w => w.token).join(' '),
+        isFinal: message.end_of_turn === true && message.turn_is_formatted === true,
+        startMs: words[0]?.startMs ?? 0,
+        endMs: words[words.length - 1]?.endMs ?? 0,
+        words,
+        confidence: confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length : undefined
+      });
+    });
+
+    return socketStream(socket, 'AssemblyAI streaming', JSON.stringify({ type: 'Terminate' }), options.onError);
+  }
+
+  /**
+   * Maps AssemblyAI's `words` array (`{ text, start, end, confidence, speaker }`, times already in ms).
+   */
+  private mapWords(words: unknown): TranscriptionWord[] {
+    if (!Array.isArray(words)) return [];
+    return words.map((w: any) => ({
+      token: String(w.text ?? ''),
+      startMs: Number(w.start) || 0,
+      endMs: Number(w.end) || 0,
+      confidence: typeof w.confidence === 'number' ? w.confidence : undefined,
+      speaker: w.speaker ? String(w.speaker) : undefined
+    }));
   }
 
   async getCostPerMinute(): Promise<number> {
@@ -129,7 +295,28 @@ export class AssemblyAIProcessor implements AudioProcessor {
   }
 
   getSupportedFormats(): string[] {
-    // Based on AssemblyAI API documentation.
-    return ['.mp3', '.wav', '.m4a', '.webm', '.flac'];
+    return [...SUPPORTED_FORMATS];
   }
-}
\ No newline at end of file
+}
+
+registerProcessor<AssemblyAIConfig>({
+  id: 'assemblyai',
+  displayName: 'AssemblyAI',
+  configSchema: [
+    { key: 'apiKey', envVar: 'ASSEMBLYAI_API_KEY', required: true, description: 'AssemblyAI API key' },
+    { key: 'streamingEndpoint', envVar: 'ASSEMBLYAI_STREAMING_URL', required: false, description: 'Live transcription WebSocket URL (e.g. the mock streaming server)' }
+  ],
+  capabilities: {
+    timestamps: true,
+    diarization: false,
+    languageHints: true,
+    languageDetection: true,
+    vocabularyBoosting: true,
+    translation: false,
+    streaming: true,
+    maxFileSizeBytes: 2200 * 1024 * 1024, // AssemblyAI upload limit (2.2GB)
+    acceptedFormats: [...SUPPORTED_FORMATS]
+  },
+  optionsSchema: [LANGUAGE_OPTION],
+  create: (config) => new AssemblyAIProcessor(config)
+});
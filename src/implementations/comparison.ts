@@ -7,25 +7,70 @@
 
 import type {
   ComparisonEngine,
+  ComparisonOptions,
   TranscriptionResult,
   ConsensusResult,
   Disagreement,
-  ConsensusStats
+  ConsensusStats,
+  NormalizationRule
 } from '../contracts/processors';
 import {
   validateConsensusResult,
   type AIReasoning,
   type ReasoningStep
 } from '../contracts/transcription';
-import { CONSENSUS_CONFIG } from '../lib/config';
+import { CONSENSUS_CONFIG, RELIABILITY_CONFIG } from '../lib/config';
+import { registerConsensusStrategy } from '../lib/strategy-registry';
+import { vocabularySpellings } from '../lib/vocabulary';
+import { emptyNormalizationCounts, normalizeText, type NormalizationCounts } from '../lib/text-normalization';
+import { TranscriptSimilarity } from '../lib/text-similarity';
+import {
+  alignTranscripts,
+  backboneOutputs,
+  findContestedSpans,
+  voteOnAlignment,
+  type SlotOutput,
+  type WordVoteResult
+} from '../lib/word-alignment';
+
+/** How the engine picks the winning transcript (the alignment backbone when it votes on words). */
+export type CandidateSelection = 'medoid' | 'highest-confidence' | 'preferred-service';
+
+export interface ConsensusEngineSettings {
+  /** 'medoid' when omitted. */
+  selection?: CandidateSelection;
+  /** Fuse a new transcript by voting on every aligned word slot. */
+  wordVote?: boolean;
+}
+
+/** The winning transcript and why it won, for the reasoning. */
+interface CandidateChoice {
+  winner: TranscriptionResult;
+  reason: string;
+}
 
 /**
  * An advanced comparison engine that selects the best transcription based on a weighted
  * combination of text similarity, confidence scores, and other quality metrics.
  * This implementation is based on the feedback from PR #9.
+ *
+ * One instance per consensus strategy (registered at the end of this file): the settings decide how
+ * the winner is picked, and whether it is kept or only serves as the alignment backbone. With word
+ * votes all transcripts are aligned word by word and each slot is voted on, so the final text can
+ * combine words from different services.
+ *
+ * Similarity and alignment compare the transcripts after text normalization (numbers, contractions,
+ * fillers...), so style differences between services do not count as disagreements. Both work on
+ * words, in time and memory that stay small for hour-long transcripts, and each pair of
+ * transcripts is scored once per comparison.
+ *
+ * With `serviceWeights` (historical reliability), similarity to a more reliable service counts for
+ * more, reliable candidates get a small bonus and win ties, and their word votes weigh more.
  */
 export class ConsensusComparisonEngine implements ComparisonEngine {
-  public compareTranscriptions(results: TranscriptionResult[]): ConsensusResult {
+  constructor(private readonly settings: ConsensusEngineSettings = {}) {}
+
+  public compareTranscriptions(results: TranscriptionResult[], options: ComparisonOptions = {}): ConsensusResult {
     if (!results || results.length === 0) {
       throw new Error('No valid transcription results provided for comparison.');
     }
@@ -40,17 +85,38 @@ export class ConsensusComparisonEngine implements ComparisonEngine {
       throw new Error('All transcription results were empty or invalid.');
     }
 
-    const consensusText = this.calculateConsensusText(validResults);
-    const winningResult = validResults.find(r => r.text === consensusText);
-    if (!winningResult) {
-      // This should theoretically not happen if calculateConsensusText works correctly
-      throw new Error('Consensus calculation failed: No winning result found.');
+    const vocabulary = vocabularySpellings(options.vocabulary ?? []);
+    const rules = options.normalization ?? CONSENSUS_CONFIG.NORMALIZATION_RULES;
+    const normalizationCounts = validResults.map(() => emptyNormalizationCounts());
+    const normalizedTexts = new Map(validResults.map((r, i) => [r, normalizeText(r.text, rules, normalizationCounts[i])]));
+    const weights = validResults.map(r => options.serviceWeights?.[r.serviceName] ?? 1);
+    const similarity = new TranscriptSimilarity();
+    const ranking = this.rankBySimilarity(validResults, normalizedTexts, similarity, vocabulary, weights);
+    const choice = this.selectCandidate(ranking, options);
+    const winningResult = choice.winner;
+    // The alignment drives both word-vote fusion and positional disagreements, so it is built in every mode.
+    const alignment = alignTranscripts(validResults, validResults.indexOf(winningResult), rules);
+    let consensusText = winningResult.text;
+    let outputs: SlotOutput[] = backboneOutputs(alignment);
+
+    let wordVote: WordVoteResult | null = null;
+    if (this.settings.wordVote) {
+      wordVote = voteOnAlignment(alignment, vocabulary, weights);
+      // Every slot voting for a gap would leave nothing; keep the backbone text in that case.
+      if (wordVote.text.length > 0) {
+        consensusText = wordVote.text;
+        outputs = wordVote.outputs;
+      }
     }
 
-    const consensusConfidence = this.calculateConsensusConfidence(validResults, consensusText);
-    const disagreements = this.findDisagreements(validResults, consensusText);
+    const consensusConfidence = this.calculateConsensusConfidence(
+      validResults, winningResult, consensusText, normalizedTexts, normalizeText(consensusText, rules), similarity
+    );
+    const disagreements = findContestedSpans(alignment, outputs, consensusText);
     const stats = this.calculateStats(validResults, disagreements);
-    const reasoning = this.buildReasoning(validResults, winningResult, consensusText, disagreements);
+    const reasoning = this.buildReasoning(
+      validResults, choice, consensusText, disagreements, wordVote, vocabulary, { rules, counts: normalizationCounts }
+    );
 
     const consensusResult: ConsensusResult = {
       finalText: consensusText,
@@ -93,30 +159,50 @@ export class ConsensusComparisonEngine implements ComparisonEngine {
   }
 
   /**
-   * Calculates the consensus text using a similarity-first approach.
+   * Orders the results by how similar each is to all others, the medoid first.
+   * Transcripts get a small bonus for each custom-vocabulary word that other transcripts missed.
+   * Similarities are averaged with the other services' reliability `weights`, and a candidate's own
+   * weight adds RELIABILITY_CONFIG.CANDIDATE_BONUS per unit above 1.
    */
-  private calculateConsensusText(results: TranscriptionResult[]): string {
-    const resultsWithScores = results.map(candidate => {
-      const otherResults = results.filter(r => r.id !== candidate.id);
-      const totalSimilarity = otherResults.reduce((sum, other) => {
-        return sum + this.calculateEnhancedSimilarity(candidate.text, other.text);
-      }, 0);
-      const averageSimilarity = otherResults.length > 0 ? totalSimilarity / otherResults.length : 1.0;
+  private rankBySimilarity(
+    results: TranscriptionResult[],
+    normalizedTexts: Map<TranscriptionResult, string>,
+    similarity: TranscriptSimilarity,
+    vocabulary: Map<string, string> = new Map(),
+    weights: number[] = results.map(() => 1)
+  ): TranscriptionResult[] {
+    const texts = results.map(r => normalizedTexts.get(r) ?? r.text);
+    const vocabularyBonus = this.vocabularyBonuses(texts, vocabulary);
+    const resultsWithScores = results.map((candidate, index) => {
+      let totalSimilarity = 0;
+      let totalWeight = 0;
+      // By position: ids are provider-made and not guaranteed unique
+      for (let otherIndex = 0; otherIndex < results.length; otherIndex++) {
+        if (otherIndex === index) continue;
+        totalSimilarity += similarity.similarity(texts[index], texts[otherIndex]) * weights[otherIndex];
+        totalWeight += weights[otherIndex];
+      }
+      const averageSimilarity = (totalWeight > 0 ? totalSimilarity / totalWeight : 1.0)
+        + vocabularyBonus[index]
+        + (weights[index] - 1) * RELIABILITY_CONFIG.CANDIDATE_BONUS;
 
       return {
-        text: candidate.text,
+        result: candidate,
         serviceName: candidate.serviceName,
-        id: candidate.id,
         confidence: candidate.confidence,
+        weight: weights[index],
         averageSimilarity,
       };
     });
 
-    // Sort by similarity score, then confidence, then service name for stability
+    // Sort by similarity score, then reliability, then confidence, then service name for stability
     resultsWithScores.sort((a, b) => {
       if (a.averageSimilarity !== b.averageSimilarity) {
         return b.averageSimilarity - a.averageSimilarity;
       }
+      if (a.weight !== b.weight) {
+        return b.weight - a.weight;
+      }
       const confidenceA = a.confidence ?? 0;
       const confidenceB = b.confidence ?? 0;
       if (confidenceB !== confidenceA) {
@@ -125,18 +211,75 @@ export class ConsensusComparisonEngine implements ComparisonEngine {
       return a.serviceName.localeCompare(b.serviceName);
     });
 
-    return resultsWithScores[0].text;
+    return resultsWithScores.map(scored => scored.result);
+  }
+
+  /**
+   * Picks the winner from the similarity `ranking` with the engine's selection. Ties go to the
+   * better-ranked result, and a selection that cannot choose falls back to the medoid.
+   */
+  private selectCandidate(ranking: TranscriptionResult[], options: ComparisonOptions): CandidateChoice {
+    const medoid = ranking[0];
+    const bySimilarity = 'based on the highest average similarity score';
+    switch (this.settings.selection ?? 'medoid') {
+      case 'highest-confidence': {
+        const rated = ranking.filter(r => typeof r.confidence === 'number');
+        if (rated.length === 0) {
+          return { winner: medoid, reason: `${bySimilarity}, as no service reported a confidence` };
+        }
+        const best = rated.reduce((top, r) => r.confidence! > top.confidence! ? r : top);
+        return { winner: best, reason: `because its service reported the highest confidence (${best.confidence!.toFixed(2)})` };
+      }
+      case 'preferred-service': {
+        const preferred = options.preferredServices ?? [];
+        for (const name of preferred) {
+          const match = ranking.find(r => r.serviceName.toLowerCase() === name.toLowerCase());
+          if (match) {
+            return { winner: match, reason: `because it is the first preferred service that returned a transcript (preference: ${preferred.join(', ')})` };
+          }
+        }
+        return {
+          winner: medoid,
+          reason: preferred.length > 0
+            ? `${bySimilarity}, as none of the preferred services (${preferred.join(', ')}) returned a transcript`
+            : `${bySimilarity}, as no preferred services were given`
+        };
+      }
+      case 'medoid':
+        return { winner: medoid, reason: bySimilarity };
+    }
+  }
+
+  /**
+   * VOCABULARY_BONUS per vocabulary word a result contains and at least one other result does not.
+   */
+  private vocabularyBonuses(normalizedTexts: string[], vocabulary: Map<string, string>): number[] {
+    if (vocabulary.size === 0) return normalizedTexts.map(() => 0);
+    const wordSets = normalizedTexts.map(text => new Set(text.split(' ')));
+    return wordSets.map(words => {
+      let contested = 0;
+      for (const norm of vocabulary.keys()) {
+        if (words.has(norm) && wordSets.some(other => !other.has(norm))) contested++;
+      }
+      return contested * CONSENSUS_CONFIG.VOCABULARY_BONUS;
+    });
   }
 
   /**
    * Calculates a weighted confidence score for the consensus text.
    */
-  private calculateConsensusConfidence(results: TranscriptionResult[], winningText: string): number {
-    const winningResult = results.find(r => r.text === winningText)!;
+  private calculateConsensusConfidence(
+    results: TranscriptionResult[],
+    winningResult: TranscriptionResult,
+    winningText: string,
+    normalizedTexts: Map<TranscriptionResult, string>,
+    normalizedWinningText: string,
+    similarity: TranscriptSimilarity
+  ): number {
     const otherResults = results.filter(r => r.text !== winningText);
 
     const averageSimilarity = otherResults.reduce((sum, other) => {
-      return sum + this.calculateEnhancedSimilarity(winningText, other.text);
+      return sum + similarity.similarity(normalizedWinningText, normalizedTexts.get(other) ?? other.text);
     }, 0) / (otherResults.length || 1);
 
     const winnerConfidence = winningResult.confidence;
@@ -152,20 +295,6 @@ export class ConsensusComparisonEngine implements ComparisonEngine {
     return Math.min(1.0, similarityComponent + confidenceComponent + speedComponent);
   }
 
-  private findDisagreements(results: TranscriptionResult[], winningText: string): Disagreement[] {
-    return results
-      .filter(r => r.text !== winningText)
-      .map(r => ({
-        position: 0, // Simplified: disagreement is for the whole text
-        serviceTexts: {
-          [r.serviceName]: r.text,
-          'consensus': winningText
-        },
-        severity: 1 - this.calculateEnhancedSimilarity(r.text, winningText)
-      }))
-      .filter(d => d.severity > (1 - CONSENSUS_CONFIG.AGREEMENT_THRESHOLD));
-  }
-
   private calculateStats(results: TranscriptionResult[], disagreements: Disagreement[]): ConsensusStats {
     const averageConfidence = this.getAverageConfidence(results);
 
@@ -177,36 +306,89 @@ export class ConsensusComparisonEngine implements ComparisonEngine {
     };
   }
 
-  private buildReasoning(results: TranscriptionResult[], winner: TranscriptionResult, consensusText: string, disagreements: Disagreement[]): AIReasoning {
+  private buildReasoning(
+    results: TranscriptionResult[],
+    { winner, reason }: CandidateChoice,
+    consensusText: string,
+    disagreements: Disagreement[],
+    wordVote: WordVoteResult | null,
+    vocabulary: Map<string, string>,
+    normalization: { rules: readonly NormalizationRule[]; counts: NormalizationCounts[] }
+  ): AIReasoning {
     const steps: ReasoningStep[] = [];
     steps.push({
-        stepNumber: 1,
+        stepNumber: steps.length + 1,
         description: `Started consensus process with ${results.length} valid transcription results.`,
         data: { serviceNames: results.map(r => r.serviceName) }
     });
+    const applied = emptyNormalizationCounts();
+    for (const counts of normalization.counts) {
+        for (const rule of normalization.rules) applied[rule] += counts[rule];
+    }
     steps.push({
-        stepNumber: 2,
-        description: "Calculated pairwise Levenshtein similarity for all results to find the best candidate.",
+        stepNumber: steps.length + 1,
+        description: describeNormalization(normalization.rules, applied),
+        data: {
+          rules: [...normalization.rules],
+          applied,
+          byService: Object.fromEntries(results.map((r, i) => [r.serviceName, normalization.counts[i]]))
+        }
     });
     steps.push({
-        stepNumber: 3,
-        description: `Selected text from "${winner.serviceName}" as the winner based on the highest average similarity score.`,
-        data: { winner: winner.serviceName, consensusText }
+        stepNumber: steps.length + 1,
+        description: "Calculated pairwise word-level similarity (edit distance and word overlap) for all results to find the best candidate.",
     });
+    if (wordVote) {
+        steps.push({
+            stepNumber: steps.length + 1,
+            description: `Selected text from "${winner.serviceName}" as the alignment backbone ${reason}.`,
+            data: { backbone: winner.serviceName }
+        });
+        const { majority, confidence, vocabulary: byVocabulary } = wordVote.decisionCounts;
+        const tieBreak = wordVote.decisionCounts['tie-break'];
+        steps.push({
+            stepNumber: steps.length + 1,
+            description: `Aligned all transcripts into ${wordVote.votes.length} word slots and voted per slot: ${majority} decided by majority, ${confidence} by confidence, ${tieBreak} by tie-break${byVocabulary ? `, ${byVocabulary} by custom vocabulary` : ''}.`,
+            data: { slots: wordVote.votes.length, majority, confidence, tieBreak, vocabulary: byVocabulary, consensusText }
+        });
+    } else {
+        steps.push({
+            stepNumber: steps.length + 1,
+            description: `Selected text from "${winner.serviceName}" as the winner ${reason}.`,
+            data: { winner: winner.serviceName, consensusText }
+        });
+    }
+    if (vocabulary.size > 0) {
+        steps.push({
+            stepNumber: steps.length + 1,
+            description: wordVote
+              ? `Preferred custom vocabulary spellings in slots where services disagreed (${vocabulary.size} vocabulary word${vocabulary.size === 1 ? '' : 's'}).`
+              : `Favoured transcripts that use custom vocabulary words other transcripts missed (${vocabulary.size} vocabulary word${vocabulary.size === 1 ? '' : 's'}).`,
+            data: { vocabulary: [...vocabulary.values()] }
+        });
+    }
     steps.push({
-        stepNumber: 4,
+        stepNumber: steps.length + 1,
         description: `Calculated final weighted consensus confidence score.`,
         data: { weights: CONSENSUS_CONFIG.DECISION_WEIGHTS }
     });
     if (disagreements.length > 0) {
         steps.push({
-            stepNumber: 5,
-            description: `Identified ${disagreements.length} disagreements with the consensus text.`,
-            data: { disagreementCount: disagreements.length }
+            stepNumber: steps.length + 1,
+            description: `Identified ${disagreements.length} contested spans where the services do not all agree.`,
+            data: {
+              disagreementCount: disagreements.length,
+              mostSevere: [...disagreements]
+                .sort((a, b) => b.severity - a.severity)
+                .slice(0, 5)
+                .map(d => ({ wordIndex: d.wordIndex, consensus: d.serviceTexts['consensus'], severity: d.severity }))
+            }
         });
     }
 
-    const finalReasoning = `Selected text from "${winner.serviceName}" due to its high average similarity to other transcriptions. The final confidence score was weighted based on text similarity, the winner's own confidence, and processing speed.`;
+    const finalReasoning = wordVote
+      ? `Fused a new transcript by aligning all ${results.length} transcriptions word by word and voting on each slot, using "${winner.serviceName}" as the alignment backbone. The final confidence score was weighted based on text similarity, the backbone's own confidence, and processing speed.`
+      : `Selected text from "${winner.serviceName}" ${reason}. The final confidence score was weighted based on text similarity, the winner's own confidence, and processing speed.`;
 
     return { finalReasoning, steps };
   }
@@ -231,69 +413,52 @@ export class ConsensusComparisonEngine implements ComparisonEngine {
     const score = 1.0 - ((processingTimeMs - CONSENSUS_CONFIG.FAST_PROCESSING_THRESHOLD) / range);
     return score;
   }
+}
 
-  private calculateLevenshteinSimilarity(a: string, b: string): number {
-    if (!a || !b) return 0;
-    const maxLength = Math.max(a.length, b.length);
-    if (maxLength === 0) return 1;
-    const distance = this.levenshteinDistance(a.toLowerCase(), b.toLowerCase());
-    return (maxLength - distance) / maxLength;
-  }
-
-  /**
-   * Calculates Jaccard similarity using word-level overlap detection.
-   * This provides superior accuracy for transcription consensus by comparing
-   * word sets rather than character sequences.
-   */
-  private calculateJaccardSimilarity(a: string, b: string): number {
-    if (!a || !b) return 0;
-    if (a === b) return 1;
-
-    // Tokenize into words and normalize
-    const wordsA = new Set(a.toLowerCase().split(/\s+/).filter(word => word.length > 0));
-    const wordsB = new Set(b.toLowerCase().split(/\s+/).filter(word => word.length > 0));
-
-    if (wordsA.size === 0 && wordsB.size === 0) return 1;
-    if (wordsA.size === 0 || wordsB.size === 0) return 0;
-
-    // Calculate intersection
-    const intersection = new Set([...wordsA].filter(word => wordsB.has(word)));
-    
-    // Calculate union
-    const union = new Set([...wordsA, ...wordsB]);
-
-    // Jaccard similarity = |intersection| / |union|
-    return intersection.size / union.size;
-  }
-
-  /**
-   * Enhanced similarity calculation combining Levenshtein and Jaccard similarities.
-   * Uses configurable weighted approach from CONSENSUS_CONFIG
-   */
-  private calculateEnhancedSimilarity(a: string, b: string): number {
-    const jaccardSim = this.calculateJaccardSimilarity(a, b);
-    const levenshteinSim = this.calculateLevenshteinSimilarity(a, b);
-    
-    // Use configurable weights for better maintainability
-    const { JACCARD_WEIGHT, LEVENSHTEIN_WEIGHT } = CONSENSUS_CONFIG.SIMILARITY_WEIGHTS;
-    return (jaccardSim * JACCARD_WEIGHT) + (levenshteinSim * LEVENSHTEIN_WEIGHT);
-  }
+const NORMALIZATION_LABELS: Record<NormalizationRule, (count: number) => string> = {
+  numbers: n => `${n} number${n === 1 ? '' : 's'} written as digits`,
+  contractions: n => `${n} contraction${n === 1 ? '' : 's'} unified`,
+  abbreviations: n => `${n} abbreviation${n === 1 ? '' : 's'} expanded`,
+  disfluencies: n => `${n} filler word${n === 1 ? '' : 's'} ignored`,
+  casing: n => `${n} word${n === 1 ? '' : 's'} lowercased`,
+  punctuation: n => `${n} word${n === 1 ? '' : 's'} stripped of punctuation`
+};
 
-  private levenshteinDistance(a: string, b: string): number {
-    const matrix = Array(b.length + 1).fill(null).map(() => Array(a.length + 1).fill(null));
-    for (let i = 0; i <= a.length; i++) { matrix[0][i] = i; }
-    for (let j = 0; j <= b.length; j++) { matrix[j][0] = j; }
-
-    for (let j = 1; j <= b.length; j++) {
-      for (let i = 1; i <= a.length; i++) {
-        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,
-          matrix[j - 1][i] + 1,
-          matrix[j - 1][i - 1] + cost
-        );
-      }
-    }
-    return matrix[b.length][a.length];
-  }
+/**
+ * Reasoning text for the normalization step, listing how often each enabled rule applied.
+ */
+function describeNormalization(rules: readonly NormalizationRule[], applied: NormalizationCounts): string {
+  if (rules.length === 0) return 'Compared the transcripts as written (text normalization is disabled).';
+  const changes = rules.filter(rule => applied[rule] > 0).map(rule => NORMALIZATION_LABELS[rule](applied[rule]));
+  return changes.length > 0
+    ? `Normalized the transcripts before scoring and alignment: ${changes.join(', ')}. The output keeps the original wording.`
+    : `Normalized the transcripts before scoring and alignment (${rules.join(', ')}); no words needed rewriting.`;
 }
+
+registerConsensusStrategy({
+  id: 'medoid',
+  displayName: 'Best single transcript',
+  description: 'The service transcript most similar to all the others.',
+  engine: new ConsensusComparisonEngine()
+});
+
+registerConsensusStrategy({
+  id: 'highest-confidence',
+  displayName: 'Highest confidence',
+  description: 'The transcript of the service that reported the highest confidence.',
+  engine: new ConsensusComparisonEngine({ selection: 'highest-confidence' })
+});
+
+registerConsensusStrategy({
+  id: 'word-vote',
+  displayName: 'Word-level voting (fusion)',
+  description: 'Aligns all transcripts word by word and keeps the reading most services agree on in each slot.',
+  engine: new ConsensusComparisonEngine({ wordVote: true })
+});
+
+registerConsensusStrategy({
+  id: 'preferred-service-with-fallback',
+  displayName: 'Preferred service',
+  description: 'The first preferred service that returned a transcript, or the best single transcript when none did.',
+  engine: new ConsensusComparisonEngine({ selection: 'preferred-service' })
+});
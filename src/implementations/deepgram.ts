@@ -1,12 +1,29 @@
-import type { AudioProcessor, DeepgramConfig } from '../contracts/processors';
-import type { TranscriptionResult } from '../contracts/transcription';
+import type {
+  DeepgramConfig,
+  HealthProbe,
+  ProcessingOptions,
+  StreamingAudioProcessor,
+  StreamingOptions,
+  TranscriptionStream
+} from '../contracts/processors';
+import type { TranscriptionResult, TranscriptionWord } from '../contracts/transcription';
+import { LANGUAGE_OPTION, registerProcessor } from '../lib/processor-registry';
+import { resolveLanguage, toBcp47 } from '../lib/language';
+import { providerHttpError, wrapProcessorError } from '../lib/retry';
+import { probeHttp } from '../lib/health';
+import { openProviderSocket, socketStream } from '../lib/provider-stream';
+
+// Based on Deepgram API documentation.
+const SUPPORTED_FORMATS = ['.mp3', '.wav', '.m4a', '.webm', '.flac', '.ogg', '.aac', '.wma'];
 
 const API_ENDPOINT = 'https://api.deepgram.com/v1/listen';
+const PROJECTS_ENDPOINT = 'https://api.deepgram.com/v1/projects';
+const STREAMING_ENDPOINT = 'wss://api.deepgram.com/v1/listen';
 
 /**
  * Implements the AudioProcessor interface for Deepgram.
  */
-export class DeepgramProcessor implements AudioProcessor {
+export class DeepgramProcessor implements StreamingAudioProcessor {
   readonly serviceName = 'Deepgram';
   private config: DeepgramConfig;
 
@@ -18,39 +35,48 @@ export class DeepgramProcessor implements AudioProcessor {
     return !!this.config.apiKey;
   }
 
-  async processFile(file: File): Promise<TranscriptionResult> {
+  async checkHealth(options: ProcessingOptions = {}): Promise<HealthProbe> {
+    if (!this.config.apiKey) {
+      return { status: 'auth-failed', error: 'Deepgram API key not configured.' };
+    }
+    // Listing the key's projects is free and needs a valid key
+    return probeHttp(PROJECTS_ENDPOINT, { headers: { 'Authorization': `Token ${this.config.apiKey}` } }, options);
+  }
+
+  async processFile(file: File, options: ProcessingOptions = {}): Promise<TranscriptionResult> {
     if (!this.config.apiKey) {
       throw new Error('Deepgram API key not configured.');
     }
 
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const base64Audio = this.arrayBufferToBase64(arrayBuffer);
       const startTime = Date.now();
 
-      const options = {
-        model: this.config.options?.model || 'nova-2',
-        smart_format: this.config.options?.smart_format ?? true,
-        punctuate: this.config.options?.punctuate ?? true,
-        utterances: this.config.options?.utterances ?? true,
-        language: this.config.options?.language || 'en-US'
-      };
+      // /v1/listen reads its options from the query string only
+      const language = resolveLanguage(this.config.options?.language, options.language);
+      const model = this.config.options?.model || 'nova-2';
+      const params = new URLSearchParams({
+        model,
+        smart_format: String(this.config.options?.smart_format ?? true),
+        punctuate: String(this.config.options?.punctuate ?? true),
+        utterances: String(this.config.options?.utterances ?? true)
+      });
+      // Without a language, let Deepgram detect it instead of assuming en-US.
+      if (language) params.set('language', toBcp47(language));
+      else params.set('detect_language', 'true');
+      for (const term of options.vocabulary ?? []) params.append('keywords', term);
 
-      const response = await fetch(API_ENDPOINT, {
+      const response = await (options.fetch ?? fetch)(`${API_ENDPOINT}?${params}`, {
         method: 'POST',
+        signal: options.signal,
         headers: {
           'Authorization': `Token ${this.config.apiKey}`,
-          'Content-Type': 'application/json',
+          'Content-Type': file.type || 'application/octet-stream',
         },
-        body: JSON.stringify({
-          audio: base64Audio,
-          ...options
-        })
+        body: await file.arrayBuffer()
       });
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Deepgram API error (${response.status}): ${errorText}`);
+        throw await providerHttpError('Deepgram API error', response);
       }
 
       const data = await response.json();
@@ -61,27 +87,101 @@ export class DeepgramProcessor implements AudioProcessor {
         id: `deepgram-${Date.now()}`,
         serviceName: this.serviceName,
         text: alternative?.transcript || '',
+        words: this.mapWords(alternative?.words),
         confidence: alternative?.confidence,
         processingTimeMs: processingTime,
         timestamp: new Date(),
         metadata: {
-          model: options.model,
-          language: options.language,
+          model,
+          language: data.results?.channels?.[0]?.detected_language ?? language,
           wordCount: alternative?.words?.length || 0,
+          durationSeconds: data.metadata?.duration,
           rawResponse: data
         }
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error(`Deepgram processor error: ${errorMessage}`);
-      throw new Error(`Deepgram processor failed: ${errorMessage}`);
+      throw wrapProcessorError(error, `Deepgram processor failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Streams PCM to Deepgram's live endpoint with interim results. Deepgram sends a result per audio
+   * window, interim ones first; a window ends with an `is_final` result.
+   */
+  async openStream(options: StreamingOptions): Promise<TranscriptionStream> {
+    if (!this.config.apiKey) {
+      throw new Error('Deepgram API key not configured.');
     }
+    const language = resolveLanguage(this.config.options?.language, options.language);
+    const params = new URLSearchParams({
+      model: this.config.options?.model || 'nova-2',
+      encoding: 'linear16',
+      sample_rate: String(options.sampleRate),
+      channels: '1',
+      interim_results: 'true',
+      smart_format: String(this.config.options?.smart_format ?? true),
+      punctuate: String(this.config.options?.punctuate ?? true)
+    });
+    if (language) params.set('language', toBcp47(language));
+    for (const term of options.vocabulary ?? []) params.append('keywords', term);
+
+    const socket = await openProviderSocket(
+      'Deepgram streaming',
+      `${this.config.streamingEndpoint || STREAMING_ENDPOINT}?${params}`,
+      { 'Authorization': `Token ${this.config.apiKey}` },
+      options.signal
+    );
+
+    let windowIndex = 0;
+    let windowHasText = false;
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) return;
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (message.type !== 'Results') return;
+      const alternative = message.channel?.alternatives?.[0];
+      const text = String(alternative?.transcript ?? '').trim();
+      const isFinal = message.is_final === true;
+      // Silent windows produce empty results; only report a final that replaces an interim
+      if (text || (isFinal && windowHasText)) {
+        const startMs = Math.round((Number(message.start) || 0) * 1000);
+        options.onSegment({
+          serviceName: this.serviceName,
+          segmentId: `deepgram-${windowIndex}`,
+          text,
+          isFinal,
+          startMs,
+          endMs: startMs + Math.round((Number(message.duration) || 0) * 1000),
+          words: this.mapWords(alternative?.words),
+          confidence: alternative?.confidence
+        });
+      }
+      windowHasText = !isFinal && (windowHasText || !!text);
+      if (isFinal) windowIndex++;
+    });
+
+    return socketStream(socket, 'Deepgram streaming', JSON.stringify({ type: 'CloseStream' }), options.onError);
   }
 
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    // Server-side base64 conversion using Buffer (Node.js) - more efficient than btoa()
-    const nodeBuffer = Buffer.from(buffer);
-    return nodeBuffer.toString('base64');
+  /**
+   * Maps Deepgram's `alternatives[0].words` (`{ word, punctuated_word, start, end, confidence, speaker }`, times in seconds).
+   * `punctuated_word` is preferred so tokens line up with the smart-formatted transcript.
+   */
+  private mapWords(words: unknown): TranscriptionWord[] {
+    if (!Array.isArray(words)) return [];
+    return words.map((w: any) => ({
+      token: String(w.punctuated_word ?? w.word ?? ''),
+      startMs: Math.round((Number(w.start) || 0) * 1000),
+      endMs: Math.round((Number(w.end) || 0) * 1000),
+      confidence: typeof w.confidence === 'number' ? w.confidence : undefined,
+      speaker: typeof w.speaker === 'number' || typeof w.speaker === 'string' ? String(w.speaker) : undefined
+    }));
   }
 
   async getCostPerMinute(): Promise<number> {
@@ -90,7 +190,34 @@ export class DeepgramProcessor implements AudioProcessor {
   }
 
   getSupportedFormats(): string[] {
-    // Based on Deepgram API documentation.
-    return ['.mp3', '.wav', '.m4a', '.webm', '.flac', '.ogg', '.aac', '.wma'];
+    return [...SUPPORTED_FORMATS];
   }
-}
\ No newline at end of file
+}
+
+registerProcessor<DeepgramConfig>({
+  id: 'deepgram',
+  displayName: 'Deepgram',
+  configSchema: [
+    { key: 'apiKey', envVar: 'DEEPGRAM_API_KEY', required: true, description: 'Deepgram API key' },
+    { key: 'streamingEndpoint', envVar: 'DEEPGRAM_STREAMING_URL', required: false, description: 'Live transcription WebSocket URL (e.g. the mock streaming server)' }
+  ],
+  capabilities: {
+    timestamps: true,
+    diarization: false,
+    languageHints: true,
+    languageDetection: true,
+    vocabularyBoosting: true,
+    translation: false,
+    streaming: true,
+    maxFileSizeBytes: 2 * 1024 * 1024 * 1024, // Deepgram pre-recorded limit (2GB)
+    acceptedFormats: [...SUPPORTED_FORMATS]
+  },
+  optionsSchema: [
+    { key: 'model', label: 'Model', type: 'enum', values: ['nova-2', 'base', 'enhanced'] },
+    LANGUAGE_OPTION,
+    { key: 'smart_format', label: 'Smart format', type: 'boolean', description: 'Format numbers, dates and currency' },
+    { key: 'punctuate', label: 'Punctuate', type: 'boolean' },
+    { key: 'utterances', label: 'Utterances', type: 'boolean', description: 'Split the transcript into utterances' }
+  ],
+  create: (config) => new DeepgramProcessor(config)
+});
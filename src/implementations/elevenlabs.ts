@@ -1,7 +1,15 @@
-import type { AudioProcessor, ElevenLabsConfig } from '../contracts/processors';
-import type { TranscriptionResult } from '../contracts/transcription';
+import type { AudioProcessor, ElevenLabsConfig, HealthProbe, ProcessingOptions } from '../contracts/processors';
+import type { TranscriptionResult, TranscriptionWord } from '../contracts/transcription';
+import { LANGUAGE_OPTION, registerProcessor } from '../lib/processor-registry';
+import { resolveLanguage, toIso6391 } from '../lib/language';
+import { providerHttpError, wrapProcessorError } from '../lib/retry';
+import { probeHttp } from '../lib/health';
+
+// Based on ElevenLabs API documentation.
+const SUPPORTED_FORMATS = ['.mp3', '.wav', '.m4a', '.webm', '.flac', '.ogg', '.aac'];
 
 const API_ENDPOINT = 'https://api.elevenlabs.io/v1/speech-to-text';
+const USER_ENDPOINT = 'https://api.elevenlabs.io/v1/user';
 
 /**
  * Implements the AudioProcessor interface for ElevenLabs.
@@ -18,7 +26,15 @@ export class ElevenLabsProcessor implements AudioProcessor {
     return !!this.config.apiKey;
   }
 
-  async processFile(file: File): Promise<TranscriptionResult> {
+  async checkHealth(options: ProcessingOptions = {}): Promise<HealthProbe> {
+    if (!this.config.apiKey) {
+      return { status: 'auth-failed', error: 'ElevenLabs API key not configured.' };
+    }
+    // Reading the key's account is free and needs a valid key
+    return probeHttp(USER_ENDPOINT, { headers: { 'xi-api-key': this.config.apiKey } }, options);
+  }
+
+  async processFile(file: File, options: ProcessingOptions = {}): Promise<TranscriptionResult> {
     if (!this.config.apiKey) {
       throw new Error('ElevenLabs API key not configured.');
     }
@@ -28,16 +44,17 @@ export class ElevenLabsProcessor implements AudioProcessor {
       formData.append('file', file, file.name);
 
       const model = this.config.options?.model || 'scribe_v1';
-      const language = this.config.options?.language;
+      const language = resolveLanguage(this.config.options?.language, options.language);
       formData.append('model_id', model);
       if (language) {
-        formData.append('language_code', language);
+        formData.append('language_code', toIso6391(language));
       }
 
       const startTime = Date.now();
 
-      const response = await fetch(API_ENDPOINT, {
+      const response = await (options.fetch ?? fetch)(API_ENDPOINT, {
         method: 'POST',
+        signal: options.signal,
         headers: {
           'xi-api-key': this.config.apiKey
         },
@@ -45,8 +62,7 @@ export class ElevenLabsProcessor implements AudioProcessor {
       });
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`ElevenLabs API error (${response.status}): ${errorText}`);
+        throw await providerHttpError('ElevenLabs API error', response);
       }
 
       const data = await response.json();
@@ -56,6 +72,7 @@ export class ElevenLabsProcessor implements AudioProcessor {
         id: `elevenlabs-${Date.now()}`,
         serviceName: this.serviceName,
         text: data.text || '',
+        words: this.mapWords(data.words),
         confidence: data.confidence,
         processingTimeMs: processingTime,
         timestamp: new Date(),
@@ -63,23 +80,65 @@ export class ElevenLabsProcessor implements AudioProcessor {
           model: model,
           language: data.language_code,
           wordCount: data.text ? data.text.split(' ').length : 0,
-          apiVersion: 'v1'
+          apiVersion: 'v1',
+          rawResponse: data
         }
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error(`ElevenLabs processor error: ${errorMessage}`);
-      throw new Error(`ElevenLabs processor failed: ${errorMessage}`);
+      throw wrapProcessorError(error, `ElevenLabs processor failed: ${errorMessage}`);
     }
   }
 
+  /**
+   * Maps ElevenLabs' `words` array (`{ text, start, end, type, speaker_id, logprob }`, times in seconds).
+   * Spacing and audio-event entries are skipped; the log probability is converted to a 0..1 confidence.
+   */
+  private mapWords(words: unknown): TranscriptionWord[] {
+    if (!Array.isArray(words)) return [];
+    return words
+      .filter((w: any) => (w.type ?? 'word') === 'word')
+      .map((w: any) => ({
+        token: String(w.text ?? ''),
+        startMs: Math.round((Number(w.start) || 0) * 1000),
+        endMs: Math.round((Number(w.end) || 0) * 1000),
+        confidence: typeof w.logprob === 'number' ? Math.min(1, Math.exp(w.logprob)) : undefined,
+        speaker: w.speaker_id ? String(w.speaker_id) : undefined
+      }));
+  }
+
   async getCostPerMinute(): Promise<number> {
     // ElevenLabs pricing as of late 2024.
     return 0.002;
   }
 
   getSupportedFormats(): string[] {
-    // Based on ElevenLabs API documentation.
-    return ['.mp3', '.wav', '.m4a', '.webm', '.flac', '.ogg', '.aac'];
+    return [...SUPPORTED_FORMATS];
   }
-}
\ No newline at end of file
+}
+
+registerProcessor<ElevenLabsConfig>({
+  id: 'elevenlabs',
+  displayName: 'ElevenLabs',
+  configSchema: [
+    { key: 'apiKey', envVar: 'ELEVENLABS_API_KEY', required: true, description: 'ElevenLabs API key' }
+  ],
+  capabilities: {
+    timestamps: true,
+    diarization: false,
+    languageHints: true,
+    languageDetection: true,
+    // scribe_v1 has no keyword/prompt parameter
+    vocabularyBoosting: false,
+    translation: false,
+    streaming: false,
+    maxFileSizeBytes: 1024 * 1024 * 1024, // ElevenLabs speech-to-text limit (1GB)
+    acceptedFormats: [...SUPPORTED_FORMATS]
+  },
+  optionsSchema: [
+    { key: 'model', label: 'Model', type: 'enum', values: ['scribe_v1'] },
+    LANGUAGE_OPTION
+  ],
+  create: (config) => new ElevenLabsProcessor(config)
+});
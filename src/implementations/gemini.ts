@@ -1,8 +1,55 @@
-import type { AudioProcessor, GeminiConfig } from '../contracts/processors';
-import type { TranscriptionResult } from '../contracts/transcription';
+import type { AudioProcessor, GeminiConfig, HealthProbe, ProcessingOptions } from '../contracts/processors';
+import type { TranscriptionResult, TranscriptionSegment, TranscriptionWord } from '../contracts/transcription';
+import { registerProcessor } from '../lib/processor-registry';
+import { languageName, resolveLanguage } from '../lib/language';
+import { vocabularyPromptSection } from '../lib/vocabulary';
+import { providerHttpError, wrapProcessorError } from '../lib/retry';
+import { probeHttp } from '../lib/health';
 
-const API_ENDPOINT_BASE = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
-const TRANSCRIPTION_PROMPT = "Please transcribe this audio file. Provide only the transcribed text without any additional commentary or formatting.";
+// Audio formats Gemini accepts as inline data, as file extensions per the AudioProcessor contract.
+const SUPPORTED_FORMATS = ['.wav', '.mp3', '.mp4', '.m4a', '.ogg', '.webm', '.flac'];
+
+const MODEL_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp';
+const API_ENDPOINT_BASE = `${MODEL_ENDPOINT}:generateContent`;
+const TRANSCRIPTION_PROMPT = "Please transcribe this audio file verbatim. Split the transcript into segments at sentence or speaker boundaries, " +
+  "give each segment's start and end time in seconds from the beginning of the audio, and label speakers consistently as \"A\", \"B\", and so on. " +
+  "Report the spoken language as an ISO 639-1 code. Do not add commentary, summaries or descriptions of non-speech sounds.";
+
+const TRANSLATION_PROMPT = "Please translate the speech in this audio file into English. Split the translation into segments at sentence or speaker boundaries, " +
+  "give each segment's start and end time in seconds from the beginning of the audio, and label speakers consistently as \"A\", \"B\", and so on. " +
+  "Write each segment's text in English only. Report the spoken (source) language as an ISO 639-1 code. Do not add commentary, summaries or descriptions of non-speech sounds.";
+
+// Structured output schema (OpenAPI subset accepted by generationConfig.responseSchema).
+const RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    language: { type: 'STRING' },
+    segments: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          start: { type: 'NUMBER' },
+          end: { type: 'NUMBER' },
+          speaker: { type: 'STRING' },
+          text: { type: 'STRING' }
+        },
+        required: ['start', 'end', 'text'],
+        propertyOrdering: ['start', 'end', 'speaker', 'text']
+      }
+    }
+  },
+  required: ['segments'],
+  propertyOrdering: ['language', 'segments']
+};
+
+/** What came back from Gemini: validated segments, or plain text when the JSON did not validate. */
+interface ParsedTranscript {
+  text: string;
+  segments: TranscriptionSegment[];
+  language?: string;
+  structuredOutput: 'segments' | 'plain-text';
+}
 
 /**
  * Implements the AudioProcessor interface for Google's Gemini model.
@@ -19,7 +66,15 @@ export class GeminiProcessor implements AudioProcessor {
     return !!this.config.apiKey;
   }
 
-  async processFile(file: File): Promise<TranscriptionResult> {
+  async checkHealth(options: ProcessingOptions = {}): Promise<HealthProbe> {
+    if (!this.config.apiKey) {
+      return { status: 'auth-failed', error: 'Gemini API key not configured.' };
+    }
+    // Reading the model's metadata is free and needs a valid key
+    return probeHttp(MODEL_ENDPOINT, { headers: { 'x-goog-api-key': this.config.apiKey } }, options);
+  }
+
+  async processFile(file: File, options: ProcessingOptions = {}): Promise<TranscriptionResult> {
     if (!this.config.apiKey) {
       throw new Error('Gemini API key not configured.');
     }
@@ -27,24 +82,36 @@ export class GeminiProcessor implements AudioProcessor {
     try {
       const base64Audio = await this.arrayBufferToBase64(file);
       const startTime = Date.now();
+      // Gemini has no language parameter, so a known language goes into the prompt.
+      const translate = options.task === 'translate';
+      const language = resolveLanguage(undefined, options.language);
+      const basePrompt = translate ? TRANSLATION_PROMPT : TRANSCRIPTION_PROMPT;
+      let prompt = language ? `${basePrompt} The audio is in ${languageName(language)}.` : basePrompt;
+      if (options.vocabulary?.length) {
+        prompt += vocabularyPromptSection(options.vocabulary);
+      }
 
       const requestBody = {
         contents: [{
           parts: [
-            { text: TRANSCRIPTION_PROMPT },
+            { text: prompt },
             { inlineData: { mimeType: file.type || 'audio/wav', data: base64Audio } }
           ]
         }],
         generationConfig: {
-          temperature: this.config.options?.temperature || 0.1,
-          topK: this.config.options?.topK || 1,
-          topP: this.config.options?.topP || 1.0,
-          maxOutputTokens: this.config.options?.maxOutputTokens || 2048,
+          temperature: this.config.options?.temperature ?? 0.1,
+          topK: this.config.options?.topK ?? 1,
+          topP: this.config.options?.topP ?? 1.0,
+          // Segment JSON takes roughly twice the tokens of the bare text
+          maxOutputTokens: this.config.options?.maxOutputTokens ?? 8192,
+          responseMimeType: 'application/json',
+          responseSchema: RESPONSE_SCHEMA
         }
       };
 
-      const response = await fetch(API_ENDPOINT_BASE, {
+      const response = await (options.fetch ?? fetch)(API_ENDPOINT_BASE, {
         method: 'POST',
+        signal: options.signal,
         headers: {
           'Content-Type': 'application/json',
           'x-goog-api-key': this.config.apiKey
@@ -53,39 +120,126 @@ export class GeminiProcessor implements AudioProcessor {
       });
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Gemini API error (${response.status}): ${errorText}`);
+        throw await providerHttpError('Gemini API error', response);
       }
 
       const data = await response.json();
       const processingTime = Date.now() - startTime;
       const candidate = data.candidates?.[0];
-      const transcribedText = candidate?.content?.parts?.[0]?.text || '';
 
       if (!candidate) {
         throw new Error('Gemini returned no candidates in response.');
       }
 
+      const responseText = (candidate.content?.parts ?? []).map((part: any) => part?.text ?? '').join('');
+      const transcript = this.parseTranscript(responseText);
+      const words = this.interpolateWords(transcript.segments);
+      const lastSegment = transcript.segments[transcript.segments.length - 1];
+      const speakers = [...new Set(transcript.segments.map(s => s.speaker).filter((s): s is string => !!s))];
+
       return {
         id: `gemini-${Date.now()}`,
         serviceName: this.serviceName,
-        text: transcribedText.trim(),
+        text: transcript.text,
+        words,
+        segments: transcript.structuredOutput === 'segments' ? transcript.segments : undefined,
         confidence: undefined, // Gemini does not provide a confidence score.
         processingTimeMs: processingTime,
         timestamp: new Date(),
         metadata: {
           model: this.config.options?.model || 'gemini-2.0-flash-exp',
           apiVersion: 'v1beta',
+          // A translation's text is English; the language Gemini heard is kept as the source
+          language: translate ? 'en' : transcript.language,
+          sourceLanguage: translate ? transcript.language : undefined,
+          task: translate ? 'translate' : 'transcribe',
+          structuredOutput: transcript.structuredOutput,
+          // Word times are spread evenly over each segment; Gemini only times segments.
+          wordTimings: words.length > 0 ? 'interpolated' : 'none',
+          segmentCount: transcript.segments.length,
+          speakers,
+          wordCount: words.length,
+          durationSeconds: lastSegment ? lastSegment.endMs / 1000 : undefined,
+          finishReason: candidate.finishReason,
           rawResponse: data
         }
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error(`Gemini processor error: ${errorMessage}`);
-      throw new Error(`Gemini processor failed: ${errorMessage}`);
+      throw wrapProcessorError(error, `Gemini processor failed: ${errorMessage}`);
     }
   }
 
+  /**
+   * Validates the structured response (`{ language?, segments: [{ start, end, speaker?, text }] }`, times in seconds).
+   * Anything that fails validation falls back to plain text without timings: the segment texts when
+   * the JSON parses, otherwise the response itself (older models may ignore the schema).
+   */
+  private parseTranscript(responseText: string): ParsedTranscript {
+    const raw = responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      if (!raw) throw new Error('Gemini returned an empty transcript.');
+      return { text: raw, segments: [], structuredOutput: 'plain-text' };
+    }
+
+    const language = typeof parsed?.language === 'string' && parsed.language.trim() ? parsed.language.trim() : undefined;
+    const items: unknown[] = Array.isArray(parsed?.segments) ? parsed.segments : [];
+    const texts = items.map((item: any) => (typeof item?.text === 'string' ? item.text.trim() : ''));
+    const text = texts.filter(Boolean).join(' ');
+    if (!text) {
+      // Valid JSON with no transcript in it (e.g. silence): nothing to fall back to
+      if (Array.isArray(parsed?.segments)) return { text: '', segments: [], language, structuredOutput: 'segments' };
+      throw new Error('Gemini response did not contain a transcript.');
+    }
+
+    const segments: TranscriptionSegment[] = [];
+    let previousEndMs = 0;
+    for (let i = 0; i < items.length; i++) {
+      const item: any = items[i];
+      const start = Number(item?.start);
+      const end = Number(item?.end);
+      // Segments must be timed, in order and non-overlapping (small rounding overlaps are tolerated)
+      if (!texts[i] || !Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end < start || start * 1000 < previousEndMs - 250) {
+        return { text, segments: [], language, structuredOutput: 'plain-text' };
+      }
+      const startMs = Math.max(Math.round(start * 1000), previousEndMs);
+      const endMs = Math.max(Math.round(end * 1000), startMs);
+      segments.push({
+        text: texts[i],
+        startMs,
+        endMs,
+        speaker: typeof item.speaker === 'string' && item.speaker.trim() ? item.speaker.trim() : undefined
+      });
+      previousEndMs = endMs;
+    }
+    return { text, segments, language, structuredOutput: 'segments' };
+  }
+
+  /**
+   * Spreads each segment's time over its words in proportion to their length, so Gemini can take part
+   * in timestamp-aware features (disagreement audio ranges, word alignment).
+   */
+  private interpolateWords(segments: TranscriptionSegment[]): TranscriptionWord[] {
+    const words: TranscriptionWord[] = [];
+    for (const segment of segments) {
+      const tokens = segment.text.split(/\s+/).filter(Boolean);
+      const totalChars = tokens.reduce((sum, token) => sum + token.length, 0);
+      const span = segment.endMs - segment.startMs;
+      let offsetChars = 0;
+      for (const token of tokens) {
+        const startMs = segment.startMs + Math.round((span * offsetChars) / totalChars);
+        offsetChars += token.length;
+        const endMs = segment.startMs + Math.round((span * offsetChars) / totalChars);
+        words.push({ token, startMs, endMs, speaker: segment.speaker });
+      }
+    }
+    return words;
+  }
+
   private async arrayBufferToBase64(file: File): Promise<string> {
     const arrayBuffer = await file.arrayBuffer();
     // Server-side base64 conversion using Buffer (Node.js)
@@ -99,7 +253,32 @@ export class GeminiProcessor implements AudioProcessor {
   }
 
   getSupportedFormats(): string[] {
-    // Return file extensions to comply with AudioProcessor contract
-    return ['.wav', '.mp3', '.mp4', '.m4a', '.ogg', '.webm', '.flac'];
+    return [...SUPPORTED_FORMATS];
   }
 }
+
+registerProcessor<GeminiConfig>({
+  id: 'gemini',
+  displayName: 'Google Gemini',
+  configSchema: [
+    { key: 'apiKey', envVar: 'GEMINI_API_KEY', required: true, description: 'Google AI Studio API key' }
+  ],
+  capabilities: {
+    timestamps: true, // segment-level, interpolated to words
+    diarization: true,
+    languageHints: true,
+    languageDetection: true,
+    vocabularyBoosting: true,
+    translation: true, // prompted, same segment schema
+    streaming: false,
+    maxFileSizeBytes: 20 * 1024 * 1024, // inline data request limit
+    acceptedFormats: [...SUPPORTED_FORMATS]
+  },
+  optionsSchema: [
+    { key: 'temperature', label: 'Temperature', type: 'number', min: 0, max: 2 },
+    { key: 'topK', label: 'Top K', type: 'number', min: 1, max: 100, integer: true },
+    { key: 'topP', label: 'Top P', type: 'number', min: 0, max: 1 },
+    { key: 'maxOutputTokens', label: 'Max output tokens', type: 'number', min: 1, max: 8192, integer: true }
+  ],
+  create: (config) => new GeminiProcessor(config)
+});
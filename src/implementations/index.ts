@@ -0,0 +1,138 @@
+/**
+ * @file index.ts
+ * @purpose Loads every AudioProcessor implementation and consensus strategy so they register themselves, then exposes the registries
+ * @phazzie-status working
+ *
+ * Import processors and strategies through this module rather than the registries directly: it
+ * guarantees all implementations have registered before anything enumerates them. Add new
+ * providers here.
+ */
+
+import './whisper';
+import './assembly';
+import './deepgram';
+import './elevenlabs';
+import './gemini';
+import './openai-compatible';
+import './comparison';
+
+import {
+  supportsStreaming,
+  type BaseProcessorConfig,
+  type ProcessorEnv,
+  type ProcessorInstance,
+  type ProcessorSelection,
+  type StreamingAudioProcessor
+} from '../contracts/processors';
+import { createConfiguredProcessors, getProcessorRegistration, validateProcessorOptions } from '../lib/processor-registry';
+import {
+  getTranscribeMode,
+  loadReplayFixtures,
+  replayConfig,
+  withRecording,
+  withReplay,
+  type ProcessorFixture
+} from '../lib/recording';
+
+export {
+  createConfiguredProcessors,
+  describeProcessors,
+  getProcessorRegistration,
+  getRegisteredProcessors
+} from '../lib/processor-registry';
+export {
+  createStrategyEngine,
+  describeConsensusStrategies,
+  getConsensusStrategy,
+  parseStrategySelection
+} from '../lib/strategy-registry';
+
+export interface PreparedProcessors {
+  instances: ProcessorInstance[];
+  /** Problems with the request's service selection or options; nothing runs when non-empty. */
+  errors: string[];
+}
+
+/**
+ * Processors for one audio file, honouring TRANSCRIBE_MODE (live processors from the environment,
+ * the same processors recording their provider responses, or replays of earlier recordings) and the
+ * request's service selection and validated per-service options.
+ */
+export async function createProcessorsForAudio(
+  file: File,
+  env: ProcessorEnv,
+  selection: ProcessorSelection = {}
+): Promise<PreparedProcessors> {
+  const mode = getTranscribeMode(env);
+
+  let available: Array<{ instance: ProcessorInstance; fixture?: ProcessorFixture }>;
+  if (mode === 'replay') {
+    available = [];
+    for (const fixture of await loadReplayFixtures(file, env)) {
+      const registration = getProcessorRegistration(fixture.registrationId);
+      if (!registration) {
+        console.warn(`Skipping ${fixture.serviceName} recording: processor "${fixture.registrationId}" is not registered`);
+        continue;
+      }
+      const config = replayConfig(fixture);
+      available.push({ instance: { registration, config, processor: registration.create(config) }, fixture });
+    }
+  } else {
+    available = createConfiguredProcessors(env).map(instance => ({ instance }));
+  }
+
+  const errors: string[] = [];
+  const availableNames = available.map(({ instance }) => instance.processor.serviceName);
+  for (const name of selection.services ?? []) {
+    if (!availableNames.includes(name)) {
+      errors.push(`Unknown or unconfigured service "${name}". Available: ${availableNames.join(', ') || 'none'}.`);
+    }
+  }
+  for (const name of Object.keys(selection.serviceOptions ?? {})) {
+    if (!availableNames.includes(name)) errors.push(`Options given for unknown or unconfigured service "${name}".`);
+  }
+
+  const instances: ProcessorInstance[] = [];
+  for (const { instance, fixture } of available) {
+    const serviceName = instance.processor.serviceName;
+    const { options, errors: optionErrors } = validateProcessorOptions(instance.registration, serviceName, selection.serviceOptions?.[serviceName]);
+    errors.push(...optionErrors);
+    if (selection.services && !selection.services.includes(serviceName)) continue;
+
+    let prepared = Object.keys(options).length > 0 ? withOptions(instance, options) : instance;
+    if (fixture) prepared = withReplay(prepared, fixture);
+    else if (mode === 'record') prepared = withRecording(prepared, env);
+    instances.push(prepared);
+  }
+
+  return errors.length > 0 ? { instances: [], errors } : { instances, errors };
+}
+
+export interface PreparedStreamingProcessors {
+  processors: StreamingAudioProcessor[];
+  /** Problems with the requested services; nothing runs when non-empty. */
+  errors: string[];
+}
+
+/**
+ * Configured processors that can transcribe live audio, optionally limited to `services`.
+ * Provider streams are neither recorded nor replayed, so TRANSCRIBE_MODE does not apply.
+ */
+export function createStreamingProcessors(env: ProcessorEnv, services?: string[]): PreparedStreamingProcessors {
+  const processors = createConfiguredProcessors(env)
+    .map(({ processor }) => processor)
+    .filter(supportsStreaming);
+  const availableNames = processors.map(p => p.serviceName);
+  const errors = (services ?? [])
+    .filter(name => !availableNames.includes(name))
+    .map(name => `Unknown or unconfigured streaming service "${name}". Available: ${availableNames.join(', ') || 'none'}.`);
+  if (errors.length > 0) return { processors: [], errors };
+  return { processors: services ? processors.filter(p => services.includes(p.serviceName)) : processors, errors };
+}
+
+/** Recreates a processor with request options merged over its configured ones. */
+function withOptions(instance: ProcessorInstance, options: Record<string, unknown>): ProcessorInstance {
+  const current = (instance.config as BaseProcessorConfig & { options?: Record<string, unknown> }).options;
+  const config = { ...instance.config, options: { ...current, ...options } };
+  return { ...instance, config, processor: instance.registration.create(config) };
+}
@@ -0,0 +1,233 @@
+import { randomUUID } from 'node:crypto';
+import type { AudioProcessor, HealthProbe, OpenAICompatibleConfig, ProcessingOptions, ProcessorEnv } from '../contracts/processors';
+import type { TranscriptionResult, TranscriptionWord } from '../contracts/transcription';
+import { LANGUAGE_OPTION, registerProcessor } from '../lib/processor-registry';
+import { resolveLanguage, toIso6391 } from '../lib/language';
+import { vocabularyPrompt } from '../lib/vocabulary';
+import { providerHttpError, wrapProcessorError } from '../lib/retry';
+import { probeHttp } from '../lib/health';
+import { mapVerboseJsonWords } from './whisper';
+
+// whisper.cpp and faster-whisper decode through ffmpeg, so they take the same formats as OpenAI.
+const SUPPORTED_FORMATS = ['.mp3', '.wav', '.m4a', '.webm', '.flac', '.ogg'];
+
+const DEFAULT_MODEL = 'whisper-1';
+
+/**
+ * Implements the AudioProcessor interface for any OpenAI-compatible transcription server.
+ * Several instances can run side by side, each with its own base URL, model and service name.
+ */
+export class OpenAICompatibleProcessor implements AudioProcessor {
+  readonly serviceName: string;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig = {}) {
+    this.config = config;
+    this.serviceName = config.serviceName || `OpenAI-compatible (${config.options?.model || DEFAULT_MODEL})`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.config.endpoint;
+  }
+
+  async checkHealth(options: ProcessingOptions = {}): Promise<HealthProbe> {
+    if (!this.config.endpoint) {
+      return { status: 'down', error: 'OpenAI-compatible base URL not configured.' };
+    }
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    const probe = await probeHttp(`${this.config.endpoint.replace(/\/+$/, '')}/models`, { headers }, options);
+    // Some servers (e.g. whisper.cpp) have no /models route; any answer still means the server is up
+    if (probe.status === 'down' && (probe.httpStatus === 404 || probe.httpStatus === 405)) {
+      return { status: 'up', httpStatus: probe.httpStatus };
+    }
+    return probe;
+  }
+
+  async processFile(file: File, options: ProcessingOptions = {}): Promise<TranscriptionResult> {
+    if (!this.config.endpoint) {
+      throw new Error(`${this.serviceName} base URL not configured.`);
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file, file.name);
+
+      const model = this.config.options?.model || DEFAULT_MODEL;
+      const responseFormat = this.config.options?.responseFormat || 'verbose_json';
+      const language = resolveLanguage(this.config.options?.language, options.language);
+      formData.append('model', model);
+      formData.append('response_format', responseFormat);
+      if (responseFormat === 'verbose_json') {
+        formData.append('timestamp_granularities[]', 'word');
+      }
+      if (language) {
+        formData.append('language', toIso6391(language));
+      }
+      if (options.vocabulary?.length) {
+        formData.append('prompt', vocabularyPrompt(options.vocabulary));
+      }
+
+      const headers: Record<string, string> = {};
+      if (this.config.apiKey) {
+        headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+      }
+
+      const startTime = Date.now();
+
+      const response = await (options.fetch ?? fetch)(transcriptionsUrl(this.config.endpoint), {
+        method: 'POST',
+        signal: options.signal,
+        headers,
+        body: formData
+      });
+
+      if (!response.ok) {
+        throw await providerHttpError(`${this.serviceName} API error`, response);
+      }
+
+      const data = await response.json();
+      const processingTime = Date.now() - startTime;
+      const text = String(data.text ?? '').trim();
+
+      return {
+        // Several instances can finish in the same millisecond, so the id cannot be time-based
+        id: `openai-compatible-${randomUUID()}`,
+        serviceName: this.serviceName,
+        text,
+        words: this.mapWords(data),
+        processingTimeMs: processingTime,
+        timestamp: new Date(),
+        metadata: {
+          model,
+          endpoint: this.config.endpoint,
+          responseFormat,
+          language: data.language,
+          wordCount: text ? text.split(/\s+/).length : 0,
+          durationSeconds: data.duration
+        }
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`${this.serviceName} processor error: ${errorMessage}`);
+      throw wrapProcessorError(error, `${this.serviceName} processor failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Servers honouring `timestamp_granularities` return top-level `words`; whisper.cpp nests them
+   * inside `segments[].words` instead.
+   */
+  private mapWords(data: any): TranscriptionWord[] {
+    if (Array.isArray(data.words)) {
+      return mapVerboseJsonWords(data.words);
+    }
+    if (Array.isArray(data.segments)) {
+      return mapVerboseJsonWords(data.segments.flatMap((s: any) => (Array.isArray(s.words) ? s.words : [])));
+    }
+    return [];
+  }
+
+  async getCostPerMinute(): Promise<number> {
+    return this.config.options?.costPerMinute ?? 0;
+  }
+
+  getSupportedFormats(): string[] {
+    return [...SUPPORTED_FORMATS];
+  }
+}
+
+/** Accepts base URLs with or without a trailing slash, e.g. `http://localhost:8000/v1/`. */
+function transcriptionsUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/audio/transcriptions`;
+}
+
+/**
+ * Reads instances from `OPENAI_COMPATIBLE_INSTANCES` (a JSON array of
+ * `{ name, baseUrl, model?, apiKey?, language?, responseFormat?, costPerMinute? }`), or a single
+ * instance from the `OPENAI_COMPATIBLE_*` variables. Instances with a duplicate name are skipped.
+ */
+function configureInstances(env: ProcessorEnv): OpenAICompatibleConfig[] {
+  const instancesJson = env.OPENAI_COMPATIBLE_INSTANCES?.trim();
+  let entries: any[];
+
+  if (instancesJson) {
+    try {
+      const parsed = JSON.parse(instancesJson);
+      entries = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      console.warn('OPENAI_COMPATIBLE_INSTANCES is not valid JSON; no OpenAI-compatible processors configured.');
+      return [];
+    }
+  } else if (env.OPENAI_COMPATIBLE_BASE_URL?.trim()) {
+    entries = [{
+      name: env.OPENAI_COMPATIBLE_NAME?.trim(),
+      baseUrl: env.OPENAI_COMPATIBLE_BASE_URL.trim(),
+      model: env.OPENAI_COMPATIBLE_MODEL?.trim(),
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY?.trim()
+    }];
+  } else {
+    return [];
+  }
+
+  const configs: OpenAICompatibleConfig[] = [];
+  const seenNames = new Set<string>();
+  for (const entry of entries) {
+    if (!entry || typeof entry.baseUrl !== 'string' || !entry.baseUrl.trim()) {
+      console.warn('Skipping OpenAI-compatible instance without a baseUrl.');
+      continue;
+    }
+    const config: OpenAICompatibleConfig = {
+      endpoint: entry.baseUrl.trim(),
+      apiKey: typeof entry.apiKey === 'string' && entry.apiKey ? entry.apiKey : undefined,
+      serviceName: typeof entry.name === 'string' && entry.name ? entry.name : undefined,
+      options: {
+        model: typeof entry.model === 'string' && entry.model ? entry.model : undefined,
+        language: typeof entry.language === 'string' && entry.language ? entry.language : undefined,
+        responseFormat: entry.responseFormat === 'json' ? 'json' : 'verbose_json',
+        costPerMinute: typeof entry.costPerMinute === 'number' ? entry.costPerMinute : undefined
+      }
+    };
+    const name = new OpenAICompatibleProcessor(config).serviceName;
+    if (seenNames.has(name)) {
+      console.warn(`Skipping OpenAI-compatible instance with duplicate name "${name}".`);
+      continue;
+    }
+    seenNames.add(name);
+    configs.push(config);
+  }
+  return configs;
+}
+
+registerProcessor<OpenAICompatibleConfig>({
+  id: 'openai-compatible',
+  displayName: 'OpenAI-compatible server',
+  configSchema: [
+    { key: 'instances', envVar: 'OPENAI_COMPATIBLE_INSTANCES', required: false, description: 'JSON array of { name, baseUrl, model, apiKey } for several instances' },
+    { key: 'endpoint', envVar: 'OPENAI_COMPATIBLE_BASE_URL', required: false, description: 'Base URL of a single instance, e.g. http://localhost:8000/v1' },
+    { key: 'options.model', envVar: 'OPENAI_COMPATIBLE_MODEL', required: false, description: 'Model name sent to the server' },
+    { key: 'apiKey', envVar: 'OPENAI_COMPATIBLE_API_KEY', required: false, description: 'Bearer token, if the server requires one' },
+    { key: 'serviceName', envVar: 'OPENAI_COMPATIBLE_NAME', required: false, description: 'Service name shown in results' }
+  ],
+  capabilities: {
+    timestamps: true,
+    diarization: false,
+    languageHints: true,
+    languageDetection: true,
+    vocabularyBoosting: true,
+    translation: false, // not every server implements /audio/translations
+    streaming: false,
+    // Self-hosted servers impose no upload limit of their own; the app's limit still applies.
+    maxFileSizeBytes: Number.MAX_SAFE_INTEGER,
+    acceptedFormats: [...SUPPORTED_FORMATS]
+  },
+  optionsSchema: [
+    { key: 'model', label: 'Model', type: 'string', pattern: '^[\\w.:/-]+$' },
+    LANGUAGE_OPTION,
+    { key: 'responseFormat', label: 'Response format', type: 'enum', values: ['verbose_json', 'json'] }
+  ],
+  configure: configureInstances,
+  create: (config) => new OpenAICompatibleProcessor(config)
+});
@@ -1,5 +1,13 @@
-import type { AudioProcessor, WhisperConfig } from '../contracts/processors';
-import type { TranscriptionResult } from '../contracts/transcription';
+import type { AudioProcessor, HealthProbe, WhisperConfig, ProcessingOptions } from '../contracts/processors';
+import type { TranscriptionResult, TranscriptionWord } from '../contracts/transcription';
+import { LANGUAGE_OPTION, registerProcessor } from '../lib/processor-registry';
+import { resolveLanguage, toIso6391 } from '../lib/language';
+import { vocabularyPrompt } from '../lib/vocabulary';
+import { providerHttpError, wrapProcessorError } from '../lib/retry';
+import { probeHttp } from '../lib/health';
+
+// Based on OpenAI Whisper API documentation.
+const SUPPORTED_FORMATS = ['.mp3', '.wav', '.m4a', '.webm', '.flac', '.ogg'];
 
 /**
  * Implements the AudioProcessor interface for OpenAI's Whisper model.
@@ -8,6 +16,8 @@ export class WhisperProcessor implements AudioProcessor {
   readonly serviceName = 'Whisper';
   private config: WhisperConfig;
   private readonly API_ENDPOINT = 'https://api.openai.com/v1/audio/transcriptions';
+  private readonly TRANSLATION_ENDPOINT = 'https://api.openai.com/v1/audio/translations';
+  private readonly MODEL_ENDPOINT = 'https://api.openai.com/v1/models/whisper-1';
 
   constructor(config: WhisperConfig = {}) {
     this.config = config;
@@ -17,7 +27,15 @@ export class WhisperProcessor implements AudioProcessor {
     return !!this.config.apiKey;
   }
 
-  async processFile(file: File): Promise<TranscriptionResult> {
+  async checkHealth(options: ProcessingOptions = {}): Promise<HealthProbe> {
+    if (!this.config.apiKey) {
+      return { status: 'auth-failed', error: 'Whisper API key not configured.' };
+    }
+    // Retrieving the model checks the key without transcribing anything
+    return probeHttp(this.MODEL_ENDPOINT, { headers: { 'Authorization': `Bearer ${this.config.apiKey}` } }, options);
+  }
+
+  async processFile(file: File, options: ProcessingOptions = {}): Promise<TranscriptionResult> {
     if (!this.config.apiKey) {
       throw new Error('Whisper API key not configured.');
     }
@@ -27,16 +45,27 @@ export class WhisperProcessor implements AudioProcessor {
       formData.append('file', file, file.name);
 
       const model = this.config.options?.model || 'whisper-1';
-      const language = this.config.options?.language;
+      const translate = options.task === 'translate';
+      const language = resolveLanguage(this.config.options?.language, options.language);
       formData.append('model', model);
-      if (language) {
-        formData.append('language', language);
+      // verbose_json is required for word-level timestamps.
+      formData.append('response_format', 'verbose_json');
+      // The translations endpoint always outputs English and takes neither a language nor word timestamps.
+      if (!translate) {
+        formData.append('timestamp_granularities[]', 'word');
+        if (language) {
+          formData.append('language', toIso6391(language));
+        }
+      }
+      if (options.vocabulary?.length) {
+        formData.append('prompt', vocabularyPrompt(options.vocabulary));
       }
 
       const startTime = Date.now();
 
-      const response = await fetch(this.API_ENDPOINT, {
+      const response = await (options.fetch ?? fetch)(translate ? this.TRANSLATION_ENDPOINT : this.API_ENDPOINT, {
         method: 'POST',
+        signal: options.signal,
         headers: {
           'Authorization': `Bearer ${this.config.apiKey}`
         },
@@ -44,8 +73,7 @@ export class WhisperProcessor implements AudioProcessor {
       });
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Whisper API error (${response.status}): ${errorText}`);
+        throw await providerHttpError('Whisper API error', response);
       }
 
       const data = await response.json();
@@ -55,19 +83,22 @@ export class WhisperProcessor implements AudioProcessor {
         id: `whisper-${Date.now()}`,
         serviceName: this.serviceName,
         text: data.text,
+        words: mapVerboseJsonWords(data.words),
         processingTimeMs: processingTime,
         timestamp: new Date(),
         metadata: {
           model: model,
-          language: data.language,
+          language: translate ? 'en' : data.language,
+          task: translate ? 'translate' : 'transcribe',
           apiVersion: 'v1',
-          wordCount: data.text.split(' ').length
+          wordCount: data.text.split(' ').length,
+          durationSeconds: data.duration
         }
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error(`Whisper processor error: ${errorMessage}`);
-      throw new Error(`Whisper processor failed: ${errorMessage}`);
+      throw wrapProcessorError(error, `Whisper processor failed: ${errorMessage}`);
     }
   }
 
@@ -77,7 +108,43 @@ export class WhisperProcessor implements AudioProcessor {
   }
 
   getSupportedFormats(): string[] {
-    // Based on OpenAI Whisper API documentation.
-    return ['.mp3', '.wav', '.m4a', '.webm', '.flac', '.ogg'];
+    return [...SUPPORTED_FORMATS];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Maps the `words` array of an OpenAI `verbose_json` response (`{ word, start, end }`, times in seconds).
+ * Whisper reports no per-word confidence.
+ */
+export function mapVerboseJsonWords(words: unknown): TranscriptionWord[] {
+  if (!Array.isArray(words)) return [];
+  return words.map((w: any) => ({
+    token: String(w.word ?? '').trim(),
+    startMs: Math.round((Number(w.start) || 0) * 1000),
+    endMs: Math.round((Number(w.end) || 0) * 1000)
+  }));
+}
+
+registerProcessor<WhisperConfig>({
+  id: 'whisper',
+  displayName: 'OpenAI Whisper',
+  configSchema: [
+    { key: 'apiKey', envVar: 'OPENAI_API_KEY', required: true, description: 'OpenAI API key' }
+  ],
+  capabilities: {
+    timestamps: true,
+    diarization: false,
+    languageHints: true,
+    languageDetection: true,
+    vocabularyBoosting: true,
+    translation: true, // /v1/audio/translations
+    streaming: false,
+    maxFileSizeBytes: 25 * 1024 * 1024, // OpenAI upload limit
+    acceptedFormats: [...SUPPORTED_FORMATS]
+  },
+  optionsSchema: [
+    { key: 'model', label: 'Model', type: 'enum', values: ['whisper-1'] },
+    LANGUAGE_OPTION
+  ],
+  create: (config) => new WhisperProcessor(config)
+});
@@ -0,0 +1,377 @@
+/**
+ * @file adjudication.ts
+ * @purpose Lets a language model choose between the services' wordings of short contested spans
+ * @phazzie-status working
+ * @dependencies processors.ts contract, retry.ts, recording.ts, text-normalization.ts, config.ts (ADJUDICATION_CONFIG, CONSENSUS_CONFIG)
+ *
+ * After the consensus, the short contested spans are sent with their candidate wordings and the
+ * surrounding consensus text to a chat model: Gemini, or any OpenAI-compatible chat API (OpenAI,
+ * or a local Ollama, LM Studio or vLLM server). The model answers with a candidate number per span.
+ * A valid number puts that candidate's wording in the final text; anything else leaves the span as
+ * it was. The model's own words are only kept as its rationale, so it cannot add text to the transcript.
+ *
+ * Configured with ADJUDICATION_PROVIDER ('gemini' or 'openai-compatible'), ADJUDICATION_MODEL,
+ * ADJUDICATION_BASE_URL and ADJUDICATION_API_KEY (Gemini falls back to GEMINI_API_KEY). Never used
+ * in replay mode, which stays offline.
+ */
+
+import type { ConsensusResult, Disagreement, ProcessorEnv, ReasoningStep } from '../contracts/processors';
+import { ADJUDICATION_CONFIG, CONSENSUS_CONFIG } from './config';
+import { getTranscribeMode } from './recording';
+import { providerHttpError } from './retry';
+import { normalizeText } from './text-normalization';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+const SYSTEM_PROMPT = [
+  'You review transcripts. Several speech recognition services transcribed the same audio and disagree on some short spans.',
+  'For each span, choose the numbered candidate that makes the most sense between the text before and after it.',
+  'You may only choose one of the candidates; never write your own wording. If no candidate fits, answer null for that span.',
+  'Answer with JSON only, in this shape: {"decisions": [{"span": <span number>, "choice": <candidate number or null>, "rationale": "<one short sentence>"}]}'
+].join('\n');
+
+// ========= TYPES =========
+
+export type AdjudicationProvider = 'gemini' | 'openai-compatible';
+
+/** The chat API adjudication requests go to. */
+export interface AdjudicatorSettings {
+  provider: AdjudicationProvider;
+  /** API root, e.g. https://api.openai.com/v1 or http://localhost:11434/v1. */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/** The model's verdict on one contested span. */
+export interface AdjudicationDecision {
+  /** Index of the span's first consensus word, after adjudication. */
+  wordIndex: number;
+  /** The wordings offered, the consensus reading first. */
+  candidates: string[];
+  /** The chosen wording; absent when the model gave no valid choice. */
+  choice?: string;
+  /** The choice replaced the consensus reading. */
+  applied: boolean;
+  rationale: string;
+}
+
+/** Outcome of adjudicating one consensus. */
+export interface AdjudicationReport {
+  provider: AdjudicationProvider;
+  model: string;
+  decisions: AdjudicationDecision[];
+  /** Contested spans not sent: too long, or beyond ADJUDICATION_CONFIG.MAX_SPANS. */
+  skipped: number;
+  /** The model could not be reached or its answer was unreadable; nothing was changed. */
+  error?: string;
+}
+
+/** A contested span as put to the model. */
+interface SpanQuestion {
+  span: Disagreement;
+  /** Distinct wordings (after normalization), the consensus reading first. */
+  candidates: string[];
+  /** Number of services that used each candidate. */
+  heardBy: number[];
+  before: string;
+  after: string;
+}
+
+interface ModelPick {
+  /** 1-based candidate number, or null. */
+  choice: number | null;
+  rationale: string;
+}
+
+// ========= CONFIGURATION =========
+
+/**
+ * The configured adjudicator, or null when adjudication is not set up (or in replay mode).
+ */
+export function resolveAdjudicator(env: ProcessorEnv): AdjudicatorSettings | null {
+  if (getTranscribeMode(env) === 'replay') return null;
+  const provider = env.ADJUDICATION_PROVIDER?.trim().toLowerCase();
+  const baseUrl = env.ADJUDICATION_BASE_URL?.trim();
+  const model = env.ADJUDICATION_MODEL?.trim();
+  const apiKey = env.ADJUDICATION_API_KEY?.trim() || undefined;
+  if (provider === 'gemini') {
+    const key = apiKey ?? env.GEMINI_API_KEY?.trim();
+    return key ? { provider, baseUrl: baseUrl || GEMINI_BASE_URL, model: model || DEFAULT_GEMINI_MODEL, apiKey: key } : null;
+  }
+  if (provider === 'openai-compatible') {
+    return baseUrl && model ? { provider, baseUrl, model, apiKey } : null;
+  }
+  return null;
+}
+
+// ========= ADJUDICATION =========
+
+/**
+ * Asks the model about the consensus's short contested spans and applies its valid choices to
+ * `consensus` in place: `finalText`, the offsets of every later span and each adjudicated span's
+ * reading and severity. `options.signal` (normally the request's) cancels the call along with the
+ * timeout. Failures are reported in the result, never thrown.
+ */
+export async function adjudicateContestedSpans(
+  settings: AdjudicatorSettings,
+  consensus: ConsensusResult,
+  options: { signal?: AbortSignal; fetchImpl?: typeof fetch } = {}
+): Promise<AdjudicationReport> {
+  const report: AdjudicationReport = { provider: settings.provider, model: settings.model, decisions: [], skipped: 0 };
+
+  const rules = CONSENSUS_CONFIG.NORMALIZATION_RULES;
+  const eligible = consensus.disagreements
+    .map(span => askAbout(span, consensus.finalText))
+    .filter((q): q is SpanQuestion => q !== null);
+  // The most severe spans when there are too many, asked in text order
+  const questions = [...eligible]
+    .sort((a, b) => b.span.severity - a.span.severity)
+    .slice(0, ADJUDICATION_CONFIG.MAX_SPANS)
+    .sort((a, b) => a.span.wordIndex - b.span.wordIndex);
+  report.skipped = consensus.disagreements.length - questions.length;
+  if (questions.length === 0) return report;
+
+  let picks: Map<number, ModelPick> | null;
+  try {
+    picks = parsePicks(await askModel(settings, questionPrompt(questions), options.signal, options.fetchImpl ?? fetch));
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : String(error);
+    return report;
+  }
+  if (!picks) {
+    report.error = 'The model did not answer with the requested JSON.';
+    return report;
+  }
+
+  const numbers = new Map(questions.map((q, i) => [q.span, i + 1]));
+  let text = consensus.finalText;
+  let charShift = 0;
+  let wordShift = 0;
+  for (const span of consensus.disagreements) {
+    span.charStart += charShift;
+    span.charEnd += charShift;
+    span.wordIndex += wordShift;
+    span.position = span.wordIndex;
+    const number = numbers.get(span);
+    if (number === undefined) continue;
+
+    const { candidates } = questions[number - 1];
+    const pick = picks.get(number);
+    const choice = pick?.choice ?? 0;
+    const index = choice >= 1 && choice <= candidates.length ? choice - 1 : -1;
+    const rationale = pick?.rationale ?? '';
+    const previousText = span.serviceTexts['consensus'] ?? '';
+    // Candidate 0 is the consensus reading
+    const applied = index > 0;
+    report.decisions.push({ wordIndex: span.wordIndex, candidates, ...(index >= 0 ? { choice: candidates[index] } : {}), applied, rationale });
+    if (index < 0) continue;
+    span.adjudication = { applied, previousText, rationale };
+    if (!applied) continue;
+
+    const wording = candidates[index];
+    const replaced = replaceSpan(text, span.charStart, span.charEnd, wording);
+    const wordCount = countWords(wording);
+    charShift += replaced.text.length - text.length;
+    wordShift += wordCount - span.wordCount;
+    text = replaced.text;
+    span.charStart = replaced.start;
+    span.charEnd = replaced.end;
+    span.wordCount = wordCount;
+    span.serviceTexts['consensus'] = wording;
+    const services = Object.entries(span.serviceTexts).filter(([name]) => name !== 'consensus');
+    const norm = normalizeText(wording, rules);
+    span.severity = services.length > 0
+      ? services.filter(([, reading]) => normalizeText(reading, rules) !== norm).length / services.length
+      : 0;
+  }
+  consensus.finalText = text;
+
+  const changed = report.decisions.filter(d => d.applied).length;
+  if (changed > 0) {
+    consensus.reasoning.finalReasoning +=
+      ` A language model (${settings.model}) then chose another service's wording for ${changed} contested span${changed === 1 ? '' : 's'}.`;
+  }
+  return report;
+}
+
+/**
+ * Reasoning step summarizing an adjudication, with the model's rationale for every span.
+ */
+export function adjudicationStep(report: AdjudicationReport, stepNumber: number): ReasoningStep {
+  const { decisions, model } = report;
+  const changed = decisions.filter(d => d.applied);
+  const kept = decisions.filter(d => d.choice !== undefined && !d.applied).length;
+  const invalid = decisions.length - changed.length - kept;
+  const skipped = report.skipped > 0 ? ` ${report.skipped} longer or less severe span${report.skipped === 1 ? ' was' : 's were'} not sent.` : '';
+
+  let description: string;
+  if (report.error) {
+    description = `LLM adjudication with ${model} failed (${report.error}); the consensus was left unchanged.`;
+  } else if (decisions.length === 0) {
+    description = `No contested span was short enough for LLM adjudication.${skipped}`;
+  } else {
+    description = `${model} adjudicated ${decisions.length} contested span${decisions.length === 1 ? '' : 's'}: ` +
+      `changed ${changed.length}, kept ${kept}` + (invalid > 0 ? `, no valid choice for ${invalid}` : '') + '.' +
+      changed.map(d => ` "${d.candidates[0] || '(no words)'}" → "${d.choice || '(no words)'}": ${d.rationale || 'no rationale given'}`).join('') +
+      skipped;
+  }
+  return {
+    stepNumber,
+    description,
+    data: {
+      provider: report.provider,
+      model,
+      decisions,
+      skipped: report.skipped,
+      ...(report.error ? { error: report.error } : {})
+    }
+  };
+}
+
+// ========= HELPERS =========
+
+/** The span as a question for the model, or null when it is too long or has nothing to choose. */
+function askAbout(span: Disagreement, finalText: string): SpanQuestion | null {
+  const rules = CONSENSUS_CONFIG.NORMALIZATION_RULES;
+  const candidates: string[] = [];
+  const heardBy: number[] = [];
+  const seen = new Map<string, number>();
+  const readings = [
+    span.serviceTexts['consensus'] ?? '',
+    ...Object.entries(span.serviceTexts).filter(([name]) => name !== 'consensus').map(([, reading]) => reading)
+  ];
+  readings.forEach((reading, i) => {
+    const wording = reading.trim();
+    const norm = normalizeText(wording, rules);
+    let index = seen.get(norm);
+    if (index === undefined) {
+      index = candidates.length;
+      seen.set(norm, index);
+      candidates.push(wording);
+      heardBy.push(0);
+    }
+    // The consensus reading is not a service of its own
+    if (i > 0) heardBy[index]++;
+  });
+  if (candidates.length < 2 || candidates.some(c => countWords(c) > ADJUDICATION_CONFIG.MAX_SPAN_WORDS)) return null;
+
+  const context = ADJUDICATION_CONFIG.CONTEXT_WORDS;
+  const before = finalText.slice(0, span.charStart).split(/\s+/).filter(Boolean).slice(-context).join(' ');
+  const after = finalText.slice(span.charEnd).split(/\s+/).filter(Boolean).slice(0, context).join(' ');
+  return { span, candidates, heardBy, before, after };
+}
+
+function questionPrompt(questions: SpanQuestion[]): string {
+  return JSON.stringify({
+    spans: questions.map((q, i) => ({
+      span: i + 1,
+      before: q.before,
+      after: q.after,
+      candidates: q.candidates.map((wording, k) => ({ number: k + 1, text: wording || '(no words)', heardBy: q.heardBy[k] }))
+    }))
+  }, null, 2);
+}
+
+async function askModel(
+  settings: AdjudicatorSettings,
+  prompt: string,
+  requestSignal: AbortSignal | undefined,
+  fetchImpl: typeof fetch
+): Promise<string> {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const timeout = AbortSignal.timeout(ADJUDICATION_CONFIG.TIMEOUT_MS);
+  const signal = requestSignal ? AbortSignal.any([requestSignal, timeout]) : timeout;
+
+  if (settings.provider === 'gemini') {
+    const response = await fetchImpl(`${baseUrl}/models/${settings.model}:generateContent`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': settings.apiKey ?? '' },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: SYSTEM_PROMPT }] },
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: { temperature: 0, responseMimeType: 'application/json' }
+      })
+    });
+    if (!response.ok) throw await providerHttpError('Gemini adjudication error', response);
+    const data = await response.json();
+    return (data.candidates?.[0]?.content?.parts ?? []).map((part: any) => part?.text ?? '').join('');
+  }
+
+  const response = await fetchImpl(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      temperature: 0,
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt }
+      ]
+    })
+  });
+  if (!response.ok) throw await providerHttpError('Adjudication API error', response);
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+  return typeof content === 'string' ? content : '';
+}
+
+/**
+ * The model's picks by span number, or null when the answer holds no decisions list. Models often
+ * wrap JSON in prose or code fences, so the outermost braces are parsed.
+ */
+function parsePicks(answer: string): Map<number, ModelPick> | null {
+  const start = answer.indexOf('{');
+  const end = answer.lastIndexOf('}');
+  if (start < 0 || end < start) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(answer.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  const decisions = (parsed as { decisions?: unknown } | null)?.decisions;
+  if (!Array.isArray(decisions)) return null;
+
+  const picks = new Map<number, ModelPick>();
+  for (const decision of decisions) {
+    if (!decision || typeof decision !== 'object') continue;
+    const { span, choice, rationale } = decision as Record<string, unknown>;
+    if (typeof span !== 'number' || !Number.isInteger(span) || picks.has(span)) continue;
+    picks.set(span, {
+      choice: typeof choice === 'number' && Number.isInteger(choice) ? choice : null,
+      rationale: typeof rationale === 'string' ? rationale.trim().slice(0, ADJUDICATION_CONFIG.MAX_RATIONALE_CHARS) : ''
+    });
+  }
+  return picks;
+}
+
+/**
+ * `text` with [start, end) replaced by `wording`, keeping single spaces between words, and where
+ * the wording now sits. An empty range is an omission anchored after the preceding word.
+ */
+function replaceSpan(text: string, start: number, end: number, wording: string): { text: string; start: number; end: number } {
+  if (!wording) {
+    // Drop the words and one of the spaces around them
+    const cutStart = start > 0 && /\s/.test(text[start - 1]) ? start - 1 : start;
+    const cutEnd = cutStart === start && /\s/.test(text[end] ?? '') ? end + 1 : end;
+    return { text: text.slice(0, cutStart) + text.slice(cutEnd), start: cutStart, end: cutStart };
+  }
+  if (start === end) {
+    if (start === 0) {
+      return { text: wording + (text ? ' ' : '') + text, start: 0, end: wording.length };
+    }
+    return { text: `${text.slice(0, start)} ${wording}${text.slice(start)}`, start: start + 1, end: start + 1 + wording.length };
+  }
+  return { text: text.slice(0, start) + wording + text.slice(end), start, end: start + wording.length };
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
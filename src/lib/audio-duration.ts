@@ -0,0 +1,151 @@
+/**
+ * @file audio-duration.ts
+ * @purpose Server-side audio duration detection for cost accounting
+ * @phazzie-status working
+ *
+ * Reads durations from container headers without a full decode:
+ * - WAV: data chunk size / byte rate (exact)
+ * - FLAC: STREAMINFO total samples / sample rate (exact)
+ * - MP3: Xing/Info frame count when present (exact), otherwise first-frame bitrate (CBR estimate).
+ *   The first frame must start the file (after any ID3v2 tag) and be followed by a second one.
+ * Anything else (MP4/M4A included) falls back to a size-based estimate at a typical compressed bitrate, a low one for
+ * WebM and Ogg (Opus voice recordings), so the duration and cost are overestimated rather than
+ * underestimated when a budget is checked.
+ */
+
+export type DurationSource = 'wav-header' | 'flac-header' | 'mp3-xing' | 'mp3-bitrate' | 'size-estimate' | 'provider-reported' | 'pcm-stream';
+
+export interface AudioDuration {
+  seconds: number;
+  source: DurationSource;
+}
+
+/** Assumed bitrate when the format cannot be parsed: 128 kbps, typical for compressed speech uploads. */
+const FALLBACK_BYTES_PER_SECOND = 128000 / 8;
+/** Assumed bitrate of WebM and Ogg files: 24 kbps, the low end of Opus voice recordings (24-64 kbps). */
+const OPUS_FALLBACK_BYTES_PER_SECOND = 24000 / 8;
+
+// MPEG-1 Layer III bitrates (kbps) by header index; MPEG-2/2.5 use the second table.
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES_V1 = [44100, 48000, 32000];
+
+export async function detectAudioDuration(file: File): Promise<AudioDuration> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const wav = wavDuration(bytes);
+  if (wav !== null) return { seconds: wav, source: 'wav-header' };
+
+  const flac = flacDuration(bytes);
+  if (flac !== null) return { seconds: flac, source: 'flac-header' };
+
+  // MP4 boxes can contain byte pairs that look like MP3 frame syncs
+  const mp3 = isMp4(bytes) ? null : mp3Duration(bytes);
+  if (mp3) return mp3;
+
+  const bytesPerSecond = isWebmOrOgg(bytes) ? OPUS_FALLBACK_BYTES_PER_SECOND : FALLBACK_BYTES_PER_SECOND;
+  return { seconds: bytes.length / bytesPerSecond, source: 'size-estimate' };
+}
+
+/** WebM/Matroska (EBML magic) or Ogg ("OggS"), the containers browsers record Opus in. */
+function isWebmOrOgg(bytes: Uint8Array): boolean {
+  const ebml = bytes.length >= 4 && bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3;
+  return ebml || (bytes.length >= 4 && ascii(bytes, 0, 4) === 'OggS');
+}
+
+/** MP4/M4A (an "ftyp" box first), what Safari records and AAC uploads come in. */
+function isMp4(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && ascii(bytes, 4, 4) === 'ftyp';
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function wavDuration(bytes: Uint8Array): number | null {
+  if (bytes.length < 12 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WAVE') return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 16 <= bytes.length) {
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (id === 'data') {
+      // Streamed WAVs may leave the size unset; fall back to what is actually in the file.
+      const dataSize = size > 0 && size !== 0xffffffff ? size : bytes.length - offset - 8;
+      return byteRate > 0 ? dataSize / byteRate : null;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function flacDuration(bytes: Uint8Array): number | null {
+  // "fLaC", then the mandatory STREAMINFO block (4-byte block header + 34 bytes).
+  if (bytes.length < 42 || ascii(bytes, 0, 4) !== 'fLaC') return null;
+  const info = 8;
+  const sampleRate = (bytes[info + 10] << 12) | (bytes[info + 11] << 4) | (bytes[info + 12] >> 4);
+  const totalSamples = (bytes[info + 13] & 0x0f) * 2 ** 32
+    + ((bytes[info + 14] << 24) >>> 0) + (bytes[info + 15] << 16) + (bytes[info + 16] << 8) + bytes[info + 17];
+  return sampleRate > 0 && totalSamples > 0 ? totalSamples / sampleRate : null;
+}
+
+interface Mp3Frame {
+  isV1: boolean;
+  sampleRate: number;
+  samplesPerFrame: number;
+  kbps: number;
+  mono: boolean;
+  /** Frame length in bytes, header included. */
+  length: number;
+}
+
+/** The Layer III frame header at `offset`, or null when there is none. */
+function mp3Frame(bytes: Uint8Array, offset: number): Mp3Frame | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03; // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03; // 1 = Layer III
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isV1 = versionBits === 3;
+  const sampleRate = MP3_SAMPLE_RATES_V1[sampleRateIndex] / (isV1 ? 1 : versionBits === 2 ? 2 : 4);
+  const kbps = (isV1 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex];
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  return {
+    isV1,
+    sampleRate,
+    samplesPerFrame: isV1 ? 1152 : 576,
+    kbps,
+    mono: (bytes[offset + 3] >> 6) === 3,
+    length: Math.floor(((isV1 ? 144000 : 72000) * kbps) / sampleRate) + padding
+  };
+}
+
+function mp3Duration(bytes: Uint8Array): AudioDuration | null {
+  let offset = 0;
+  // Skip an ID3v2 tag (its size is a 28-bit syncsafe integer).
+  if (bytes.length >= 10 && ascii(bytes, 0, 3) === 'ID3') {
+    offset = 10 + ((bytes[6] & 0x7f) << 21 | (bytes[7] & 0x7f) << 14 | (bytes[8] & 0x7f) << 7 | (bytes[9] & 0x7f));
+  }
+
+  // A stray sync pattern is common in other formats; a real stream has the next frame where this one ends.
+  const frame = mp3Frame(bytes, offset);
+  const next = frame ? mp3Frame(bytes, offset + frame.length) : null;
+  if (!frame || !next || next.isV1 !== frame.isV1 || next.sampleRate !== frame.sampleRate) return null;
+
+  // Xing/Info header lives after the side information of the first frame.
+  const sideInfo = frame.isV1 ? (frame.mono ? 17 : 32) : (frame.mono ? 9 : 17);
+  const xing = offset + 4 + sideInfo;
+  if (xing + 12 <= bytes.length) {
+    const tag = ascii(bytes, xing, 4);
+    if ((tag === 'Xing' || tag === 'Info') && (bytes[xing + 7] & 0x01)) {
+      const frames = ((bytes[xing + 8] << 24) >>> 0) + (bytes[xing + 9] << 16) + (bytes[xing + 10] << 8) + bytes[xing + 11];
+      if (frames > 0) return { seconds: (frames * frame.samplesPerFrame) / frame.sampleRate, source: 'mp3-xing' };
+    }
+  }
+
+  return { seconds: ((bytes.length - offset) * 8) / (frame.kbps * 1000), source: 'mp3-bitrate' };
+}
@@ -0,0 +1,96 @@
+/**
+ * @file audio-recorder.ts
+ * @purpose Records the microphone to an audio File with MediaRecorder (browser-only)
+ * @phazzie-status working
+ * @dependencies MediaRecorder, Web Audio API (level meter)
+ *
+ * The recording is compressed by the browser (Opus in WebM or Ogg, AAC in MP4 on Safari) and
+ * transcribed like an uploaded file. For streaming transcription while speaking, see live-capture.ts.
+ */
+
+// Preferred first; every entry maps to an upload format the processors accept
+const RECORDING_TYPES: Array<{ mimeType: string; extension: string }> = [
+  { mimeType: 'audio/webm;codecs=opus', extension: '.webm' },
+  { mimeType: 'audio/webm', extension: '.webm' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: '.ogg' },
+  { mimeType: 'audio/mp4', extension: '.m4a' }
+];
+
+export interface RecorderOptions {
+  /** Microphone level from 0 to 1, once per animation frame. */
+  onLevel?(level: number): void;
+}
+
+export interface AudioRecording {
+  /** Ends the recording and resolves with it as a File. */
+  stop(): Promise<File>;
+  /** Ends the recording and throws it away. */
+  cancel(): void;
+}
+
+/** Whether this browser can record audio at all. */
+export function canRecordAudio(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Asks for the microphone and starts recording; rejects when access is denied.
+ */
+export async function startRecording(options: RecorderOptions = {}): Promise<AudioRecording> {
+  const type = RECORDING_TYPES.find(t => MediaRecorder.isTypeSupported(t.mimeType));
+  if (!type) throw new Error('This browser cannot record audio in a format the transcription services accept.');
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+  const recorder = new MediaRecorder(stream, { mimeType: type.mimeType });
+  const parts: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) parts.push(event.data);
+  };
+
+  // Level meter: RMS of the waveform, scaled so normal speech fills most of the bar
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let frame = 0;
+  const measure = () => {
+    analyser.getFloatTimeDomainData(samples);
+    const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+    options.onLevel?.(Math.min(1, rms * 4));
+    frame = requestAnimationFrame(measure);
+  };
+  if (options.onLevel) frame = requestAnimationFrame(measure);
+
+  const release = () => {
+    cancelAnimationFrame(frame);
+    stream.getTracks().forEach(track => track.stop());
+    context.close().catch(() => {});
+  };
+
+  // Timeslice: a long recording is not lost to one huge final buffer
+  recorder.start(1000);
+
+  return {
+    stop() {
+      return new Promise<File>((resolve, reject) => {
+        recorder.onstop = () => {
+          release();
+          const baseType = type.mimeType.split(';')[0];
+          const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+          resolve(new File(parts, `recording-${stamp}${type.extension}`, { type: baseType }));
+        };
+        recorder.onerror = () => {
+          release();
+          reject(new Error('Recording failed.'));
+        };
+        recorder.stop();
+      });
+    },
+    cancel() {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    }
+  };
+}
@@ -0,0 +1,400 @@
+/**
+ * @file benchmark.ts
+ * @purpose Runs a labeled audio dataset through the processors and consensus engine and summarizes accuracy, latency and cost
+ * @phazzie-status working
+ * @dependencies implementations (processors), consensus-pipeline.ts, evaluation.ts, cost.ts, retry.ts, Node fs (server-only)
+ *
+ * A dataset is a folder of audio files, each with a reference transcript of the same name ending in
+ * `.txt` (`interview.mp3` + `interview.txt`). Files are processed one at a time, each by every
+ * selected service in parallel, exactly as /api/transcribe would. With TRANSCRIBE_MODE=replay the
+ * processors come from recorded fixtures, so a benchmark runs offline and deterministically; the
+ * latencies are then replay times and only the accuracy figures are meaningful.
+ *
+ * Run it with `npm run benchmark` (scripts/benchmark.js).
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ConsensusMode, ProcessorEnv, ProcessorSelection, TranscriptionResult } from '../contracts/processors';
+import { SUPPORTED_AUDIO_FORMATS } from '../contracts/transcription';
+import { createProcessorsForAudio, createStrategyEngine } from '../implementations';
+import { detectAudioDuration } from './audio-duration';
+import { finalizeConsensus, type ConsensusContext } from './consensus-pipeline';
+import { costByService, formatUsd, getCostRates, resolveBilledDuration } from './cost';
+import { parseReference } from './evaluation';
+import type { RequestedLanguage } from './language';
+import { getTranscribeMode, type TranscribeMode } from './recording';
+import { processWithRetry } from './retry';
+
+// ========= TYPES =========
+
+export interface BenchmarkOptions {
+  datasetDir: string;
+  env: ProcessorEnv;
+  selection?: ProcessorSelection;
+  consensusMode?: ConsensusMode;
+  /** For 'preferred-service-with-fallback'. */
+  preferredServices?: string[];
+  language?: RequestedLanguage;
+  onProgress?(message: string): void;
+}
+
+/** How one service did on one file. */
+export interface BenchmarkServiceRun {
+  succeeded: boolean;
+  /** Wall time including retries. */
+  latencyMs: number;
+  attempts: number;
+  error?: string;
+  wer?: number;
+  cer?: number;
+  /** Substitutions + insertions + deletions. */
+  errors?: number;
+  costUsd?: number;
+}
+
+/** Everything measured for one dataset file. */
+export interface BenchmarkItem {
+  file: string;
+  durationSeconds: number;
+  referenceWords: number;
+  services: Record<string, BenchmarkServiceRun>;
+  /** Null when every service failed. */
+  consensus: { text: string; wer: number; cer: number; errors: number } | null;
+  bestService?: string;
+  werDeltaVsBest?: number;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  max: number;
+}
+
+/** One service over the whole dataset. WER and CER cover the files it transcribed. */
+export interface BenchmarkServiceSummary {
+  serviceName: string;
+  files: number;
+  failures: number;
+  failureRate: number;
+  /** Errors over reference words, summed across files. */
+  wer: number;
+  /** Mean of the per-file CERs. */
+  cer: number;
+  latencyMs: LatencyPercentiles;
+  estimatedCostUsd: number;
+}
+
+export interface BenchmarkReport {
+  createdAt: string;
+  mode: TranscribeMode;
+  datasetDir: string;
+  consensusMode: ConsensusMode;
+  files: number;
+  services: BenchmarkServiceSummary[];
+  consensus: {
+    files: number;
+    wer: number;
+    cer: number;
+    /** Files where the consensus had a lower / equal / higher WER than that file's best service. */
+    betterThanBest: number;
+    equalToBest: number;
+    worseThanBest: number;
+  };
+  items: BenchmarkItem[];
+  skipped: Array<{ file: string; reason: string }>;
+}
+
+/** A WER that got worse than in an earlier report. */
+export interface BenchmarkRegression {
+  subject: string;
+  baselineWer: number;
+  wer: number;
+}
+
+// ========= DATASET =========
+
+const AUDIO_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg', '.wav': 'audio/wav', '.m4a': 'audio/mp4', '.webm': 'audio/webm', '.flac': 'audio/flac', '.ogg': 'audio/ogg'
+};
+
+/**
+ * Audio files of the dataset with their reference transcripts; files without a usable reference are skipped.
+ */
+async function loadDataset(datasetDir: string): Promise<{
+  entries: Array<{ file: string; audioPath: string; reference: string }>;
+  skipped: BenchmarkReport['skipped'];
+}> {
+  const names = (await readdir(datasetDir)).sort();
+  const entries: Array<{ file: string; audioPath: string; reference: string }> = [];
+  const skipped: BenchmarkReport['skipped'] = [];
+  for (const name of names) {
+    const extension = path.extname(name).toLowerCase();
+    if (!(SUPPORTED_AUDIO_FORMATS as readonly string[]).includes(extension)) continue;
+    const referencePath = path.join(datasetDir, `${path.basename(name, path.extname(name))}.txt`);
+    const text = await readFile(referencePath, 'utf8').catch(() => null);
+    const parsed = parseReference(text);
+    if ('error' in parsed || !parsed.reference) {
+      skipped.push({ file: name, reason: 'error' in parsed ? parsed.error : `No reference transcript (${path.basename(referencePath)}).` });
+      continue;
+    }
+    entries.push({ file: name, audioPath: path.join(datasetDir, name), reference: parsed.reference });
+  }
+  return { entries, skipped };
+}
+
+// ========= RUN =========
+
+/**
+ * Transcribes every dataset file with every selected service, builds the consensus and scores
+ * both against the references.
+ */
+export async function runBenchmark(options: BenchmarkOptions): Promise<BenchmarkReport> {
+  const { datasetDir, env, selection = {}, consensusMode = 'medoid', preferredServices = [], language = 'auto', onProgress } = options;
+  const engine = createStrategyEngine();
+  const { entries, skipped } = await loadDataset(datasetDir);
+  const items: BenchmarkItem[] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    onProgress?.(`[${index + 1}/${entries.length}] ${entry.file}`);
+    const bytes = await readFile(entry.audioPath);
+    const file = new File([new Uint8Array(bytes)], entry.file, { type: AUDIO_TYPES[path.extname(entry.file).toLowerCase()] });
+
+    const { instances, errors } = await createProcessorsForAudio(file, env, selection);
+    if (errors.length > 0 || instances.length === 0) {
+      skipped.push({ file: entry.file, reason: errors.join(' ') || 'No processors are configured (or recorded) for this file.' });
+      continue;
+    }
+    const processors = instances.map(i => i.processor);
+
+    const outcomes = await Promise.all(processors.map(async processor => {
+      const startedAt = Date.now();
+      const outcome = await processWithRetry(processor, file, { language });
+      return { ...outcome, latencyMs: Date.now() - startedAt };
+    }));
+    const results = outcomes.map(o => o.result).filter((r): r is TranscriptionResult => r !== null);
+
+    const detectedDuration = await detectAudioDuration(file);
+    const costRates = await getCostRates(processors);
+    const billedDuration = resolveBilledDuration(detectedDuration, results);
+    const costs = costByService(costRates, results, billedDuration).costByService;
+
+    const services: Record<string, BenchmarkServiceRun> = {};
+    processors.forEach((processor, i) => {
+      const { result, attempts, latencyMs } = outcomes[i];
+      services[processor.serviceName] = {
+        succeeded: result !== null,
+        latencyMs,
+        attempts: attempts.length,
+        ...(result ? { costUsd: costs[processor.serviceName] } : { error: attempts[attempts.length - 1]?.error ?? 'Unknown error' })
+      };
+    });
+
+    const item: BenchmarkItem = {
+      file: entry.file,
+      durationSeconds: billedDuration.seconds,
+      referenceWords: 0,
+      services,
+      consensus: null
+    };
+
+    if (results.length > 0) {
+      const context: ConsensusContext = {
+        consensusMode,
+        preferredServices,
+        language,
+        excludeLanguageMismatches: false,
+        vocabulary: [],
+        translate: false,
+        reference: entry.reference,
+        hintedByService: {},
+        detectedDuration,
+        costRates,
+        estimatedCostByService: {},
+        skippedServices: [],
+        serviceAttempts: []
+      };
+      const consensus = finalizeConsensus(engine, context, results);
+      const evaluation = consensus.evaluation!;
+      for (const [serviceName, scored] of Object.entries(evaluation.byService)) {
+        Object.assign(services[serviceName], {
+          wer: scored.wer,
+          cer: scored.cer,
+          errors: scored.substitutions + scored.insertions + scored.deletions
+        });
+      }
+      const scored = evaluation.consensus;
+      item.referenceWords = scored.referenceWords;
+      item.consensus = { text: consensus.finalText, wer: scored.wer, cer: scored.cer, errors: scored.substitutions + scored.insertions + scored.deletions };
+      item.bestService = evaluation.bestService;
+      item.werDeltaVsBest = evaluation.werDeltaVsBest;
+    }
+    items.push(item);
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    mode: getTranscribeMode(env),
+    datasetDir,
+    consensusMode,
+    files: items.length,
+    services: summarizeServices(items),
+    consensus: summarizeConsensus(items),
+    items,
+    skipped
+  };
+}
+
+// ========= SUMMARIES =========
+
+/** Nearest-rank percentile of ascending `sorted`. */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function summarizeServices(items: BenchmarkItem[]): BenchmarkServiceSummary[] {
+  const names = [...new Set(items.flatMap(item => Object.keys(item.services)))].sort();
+  return names.map(serviceName => {
+    const runs = items
+      .filter(item => item.services[serviceName])
+      .map(item => ({ item, run: item.services[serviceName] }));
+    const scored = runs.filter(({ run }) => run.succeeded && run.errors !== undefined);
+    const referenceWords = scored.reduce((sum, { item }) => sum + item.referenceWords, 0);
+    const latencies = runs.map(({ run }) => run.latencyMs).sort((a, b) => a - b);
+    const failures = runs.filter(({ run }) => !run.succeeded).length;
+    return {
+      serviceName,
+      files: runs.length,
+      failures,
+      failureRate: runs.length > 0 ? failures / runs.length : 0,
+      wer: referenceWords > 0 ? scored.reduce((sum, { run }) => sum + (run.errors ?? 0), 0) / referenceWords : 0,
+      cer: mean(scored.map(({ run }) => run.cer ?? 0)),
+      latencyMs: {
+        p50: percentile(latencies, 50),
+        p90: percentile(latencies, 90),
+        p95: percentile(latencies, 95),
+        max: latencies[latencies.length - 1] ?? 0
+      },
+      estimatedCostUsd: runs.reduce((sum, { run }) => sum + (run.costUsd ?? 0), 0)
+    };
+  }).sort((a, b) => a.wer - b.wer);
+}
+
+function summarizeConsensus(items: BenchmarkItem[]): BenchmarkReport['consensus'] {
+  const scored = items.filter(item => item.consensus !== null);
+  const referenceWords = scored.reduce((sum, item) => sum + item.referenceWords, 0);
+  return {
+    files: scored.length,
+    wer: referenceWords > 0 ? scored.reduce((sum, item) => sum + item.consensus!.errors, 0) / referenceWords : 0,
+    cer: mean(scored.map(item => item.consensus!.cer)),
+    betterThanBest: scored.filter(item => (item.werDeltaVsBest ?? 0) < 0).length,
+    equalToBest: scored.filter(item => item.werDeltaVsBest === 0).length,
+    worseThanBest: scored.filter(item => (item.werDeltaVsBest ?? 0) > 0).length
+  };
+}
+
+/**
+ * WERs (consensus first, then each service present in both reports) that rose by more than
+ * `tolerance` since `baseline`.
+ */
+export function findRegressions(report: BenchmarkReport, baseline: BenchmarkReport, tolerance = 0): BenchmarkRegression[] {
+  const regressions: BenchmarkRegression[] = [];
+  if (baseline.consensus.files > 0 && report.consensus.wer > baseline.consensus.wer + tolerance) {
+    regressions.push({ subject: 'consensus', baselineWer: baseline.consensus.wer, wer: report.consensus.wer });
+  }
+  for (const service of report.services) {
+    const before = baseline.services.find(s => s.serviceName === service.serviceName);
+    if (before && service.wer > before.wer + tolerance) {
+      regressions.push({ subject: service.serviceName, baselineWer: before.wer, wer: service.wer });
+    }
+  }
+  return regressions;
+}
+
+// ========= HTML REPORT =========
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+/**
+ * A self-contained HTML page with the summary tables and the per-file results.
+ */
+export function renderBenchmarkHtml(report: BenchmarkReport): string {
+  const serviceNames = report.services.map(s => s.serviceName);
+  const serviceRows = report.services.map(s => `
+        <tr>
+          <td>${escapeHtml(s.serviceName)}</td>
+          <td>${percent(s.wer)}</td>
+          <td>${percent(s.cer)}</td>
+          <td>${s.latencyMs.p50} / ${s.latencyMs.p90} / ${s.latencyMs.p95} / ${s.latencyMs.max}</td>
+          <td>${percent(s.failureRate)} (${s.failures}/${s.files})</td>
+          <td>${formatUsd(s.estimatedCostUsd)}</td>
+        </tr>`).join('');
+  const itemRows = report.items.map(item => `
+        <tr>
+          <td>${escapeHtml(item.file)}</td>
+          <td>${item.durationSeconds.toFixed(1)}s</td>
+          <td class="${item.werDeltaVsBest !== undefined && item.werDeltaVsBest < 0 ? 'better' : item.werDeltaVsBest !== undefined && item.werDeltaVsBest > 0 ? 'worse' : ''}">${item.consensus ? percent(item.consensus.wer) : 'failed'}</td>
+          ${serviceNames.map(name => {
+            const run = item.services[name];
+            if (!run) return '<td>–</td>';
+            return run.succeeded
+              ? `<td>${percent(run.wer ?? 0)}</td>`
+              : `<td class="failed" title="${escapeHtml(run.error ?? '')}">failed</td>`;
+          }).join('')}
+        </tr>`).join('');
+  const skippedList = report.skipped.length > 0
+    ? `<h2>Skipped files</h2><ul>${report.skipped.map(s => `<li>${escapeHtml(s.file)}: ${escapeHtml(s.reason)}</li>`).join('')}</ul>`
+    : '';
+  const { consensus } = report;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Transcription benchmark ${escapeHtml(report.createdAt)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2933; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #cbd2d9; padding: 0.35rem 0.7rem; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    th { background: #f0f4f8; }
+    .better { background: #d9f99d; }
+    .worse, .failed { background: #fecaca; }
+    .meta { color: #616e7c; }
+  </style>
+</head>
+<body>
+  <h1>Transcription benchmark</h1>
+  <p class="meta">${escapeHtml(report.createdAt)} · ${report.mode} mode · ${report.files} files from ${escapeHtml(report.datasetDir)} · consensus mode ${report.consensusMode}</p>
+
+  <h2>Consensus</h2>
+  <p>WER ${percent(consensus.wer)}, CER ${percent(consensus.cer)} over ${consensus.files} files. Against each file's best single service it was better on ${consensus.betterThanBest}, equal on ${consensus.equalToBest} and worse on ${consensus.worseThanBest}.</p>
+
+  <h2>Services</h2>
+  <table>
+    <thead><tr><th>Service</th><th>WER</th><th>CER</th><th>Latency p50 / p90 / p95 / max (ms)</th><th>Failure rate</th><th>Estimated cost</th></tr></thead>
+    <tbody>${serviceRows}
+    </tbody>
+  </table>
+
+  <h2>Files (WER)</h2>
+  <table>
+    <thead><tr><th>File</th><th>Duration</th><th>Consensus</th>${serviceNames.map(name => `<th>${escapeHtml(name)}</th>`).join('')}</tr></thead>
+    <tbody>${itemRows}
+    </tbody>
+  </table>
+  ${skippedList}
+</body>
+</html>
+`;
+}
@@ -10,11 +10,18 @@ export interface AudioChunkOptions {
   minSeconds?: number;
 }
 
+/** One WAV chunk and where it starts in the original audio. */
+export interface AudioChunk {
+  file: File;
+  /** Offset of the chunk's first sample in the original audio, in milliseconds. */
+  startMs: number;
+}
+
 /**
  * Splits an audio File into WAV chunks under the approximate size limit.
  * Note: Must be called in the browser (uses AudioContext).
  */
-export async function chunkAudioFile(file: File, opts: AudioChunkOptions = {}): Promise<File[]> {
+export async function chunkAudioFile(file: File, opts: AudioChunkOptions = {}): Promise<AudioChunk[]> {
   const targetBytes = opts.targetBytes ?? 4 * 1024 * 1024; // 4MB
   const minSeconds = opts.minSeconds ?? 10;
 
@@ -30,13 +37,13 @@ export async function chunkAudioFile(file: File, opts: AudioChunkOptions = {}):
   if (!isFinite(chunkSeconds) || chunkSeconds <= 0) chunkSeconds = minSeconds;
 
   const totalSeconds = audioBuffer.duration;
-  const chunks: File[] = [];
+  const chunks: AudioChunk[] = [];
   let offsetSec = 0;
   let idx = 0;
   while (offsetSec < totalSeconds) {
     const endSec = Math.min(totalSeconds, offsetSec + chunkSeconds);
     const chunk = sliceBufferToWavFile(audioBuffer, offsetSec, endSec, `chunk-${idx}.wav`);
-    chunks.push(chunk);
+    chunks.push({ file: chunk, startMs: Math.round(offsetSec * 1000) });
     idx++;
     offsetSec = endSec;
   }
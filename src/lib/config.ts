@@ -42,9 +42,25 @@ export const CONSENSUS_CONFIG = {
   
   /** Similarity algorithm weights for enhanced comparison */
   SIMILARITY_WEIGHTS: {
-    JACCARD_WEIGHT: 0.6,      // Word-level similarity weight
-    LEVENSHTEIN_WEIGHT: 0.4   // Character-level similarity weight
-  }
+    JACCARD_WEIGHT: 0.6,      // Word-overlap similarity weight
+    LEVENSHTEIN_WEIGHT: 0.4   // Word-level edit distance similarity weight
+  },
+
+  /** ROVER-style word voting used by the 'word-vote' consensus mode */
+  WORD_VOTE: {
+    /** Share of the slot score that comes from vote frequency; the rest comes from word confidence */
+    FREQUENCY_WEIGHT: 0.7,
+    /** Confidence assigned to a gap (a service that has no word in the slot) */
+    NULL_CONFIDENCE: 0.5,
+    /** Confidence assumed for words when neither the word nor its service reports one */
+    DEFAULT_WORD_CONFIDENCE: 0.5
+  },
+
+  /** Added to a transcript's medoid score for each custom-vocabulary word it has that some other transcript lacks */
+  VOCABULARY_BONUS: 0.02,
+
+  /** Normalizations applied before scoring and aligning transcripts (see text-normalization.ts) */
+  NORMALIZATION_RULES: ['casing', 'punctuation', 'contractions', 'numbers', 'abbreviations', 'disfluencies']
 } as const;
 
 // ========= UI CONFIGURATION =========
@@ -128,16 +144,123 @@ export const QUALITY_CONFIG = {
  * Error Handling and Retry Configuration
  */
 export const ERROR_CONFIG = {
-  /** Number of retries for failed AI service calls */
+  /** Number of retries for failed AI service calls (retryable errors only) */
   MAX_RETRIES: 3,
   
-  /** Delay between retries (milliseconds) */
+  /** Base delay before the first retry (milliseconds); doubles per attempt, with jitter */
   RETRY_DELAY: 1000,
   
-  /** Timeout for individual retry attempts */
+  /** Longest wait before a retry (milliseconds); a longer Retry-After ends retrying */
   RETRY_TIMEOUT: 10000
 } as const;
 
+// ========= LONG-RUNNING JOB CONFIGURATION =========
+
+/**
+ * Provider jobs for recordings too long to transcribe within one request
+ */
+export const JOB_CONFIG = {
+  /** Audio longer than this (seconds) runs job-capable services as background jobs */
+  LONG_AUDIO_THRESHOLD_SECONDS: 120,
+
+  /** Default time a job waits for its providers before giving up (minutes); JOB_TIMEOUT_MINUTES overrides */
+  DEFAULT_TIMEOUT_MINUTES: 180,
+
+  /** First wait between provider polls (milliseconds); doubles per poll */
+  POLL_INITIAL_DELAY_MS: 5000,
+
+  /** Longest wait between provider polls (milliseconds) */
+  POLL_MAX_DELAY_MS: 60000
+} as const;
+
+// ========= HEALTH PROBE CONFIGURATION =========
+
+/**
+ * Provider health probes behind /api/health
+ */
+export const HEALTH_CONFIG = {
+  /** How long a probe result is reused before the provider is probed again (milliseconds) */
+  CACHE_TTL_MS: 60000,
+
+  /** How long a 'down' result is reused; one slow or failed probe should not sideline a service for long (milliseconds) */
+  DOWN_CACHE_TTL_MS: 10000,
+
+  /** `?refresh=true` probes a service again only when its last probe is at least this old (milliseconds) */
+  MIN_REFRESH_INTERVAL_MS: 10000,
+
+  /** A probe taking longer than this counts as the service being down (milliseconds) */
+  PROBE_TIMEOUT_MS: 5000
+} as const;
+
+// ========= LIVE TRANSCRIPTION CONFIGURATION =========
+
+/**
+ * Live microphone transcription over /api/live
+ */
+export const LIVE_CONFIG = {
+  /** PCM sample rate the browser sends and providers receive (Hz) */
+  SAMPLE_RATE: 16000,
+
+  /** Audio per WebSocket message from the browser (milliseconds) */
+  CHUNK_MS: 100,
+
+  /** Shortest interval between rolling consensus updates (milliseconds) */
+  CONSENSUS_INTERVAL_MS: 1000,
+
+  /** Longest wait for a provider's last segments after the audio ends (milliseconds) */
+  FINISH_TIMEOUT_MS: 10000,
+
+  /** Largest audio message accepted from the browser (bytes) */
+  MAX_MESSAGE_BYTES: 256 * 1024
+} as const;
+
+// ========= EVALUATION CONFIGURATION =========
+
+/**
+ * Scoring transcripts against a reference transcript
+ */
+export const EVALUATION_CONFIG = {
+  /** Longest reference transcript accepted (characters); the word alignment grows with its square */
+  MAX_REFERENCE_CHARS: 50000
+} as const;
+
+/**
+ * Per-service reliability weights learned from past outcomes (src/lib/reliability.ts)
+ */
+export const RELIABILITY_CONFIG = {
+  /** Outcomes each running average covers; older ones fade out */
+  HISTORY_WINDOW: 200,
+  /** A WER against a reference or a user correction counts as this many agreement samples */
+  REFERENCE_SAMPLE_WEIGHT: 3,
+  /** Neutral samples every service starts with, so a few outcomes cannot swing its weight */
+  PRIOR_SAMPLES: 10,
+  /** Samples a language needs before its own history is used instead of all languages together */
+  MIN_LANGUAGE_SAMPLES: 10,
+  /** Bounds of a weight; 1 is the average reliability of the services compared */
+  MIN_WEIGHT: 0.5,
+  MAX_WEIGHT: 1.5,
+  /** Medoid score added per unit of weight above 1 (subtracted below) */
+  CANDIDATE_BONUS: 0.1,
+  /** How long a consensus's service transcripts are kept for POST /api/corrections */
+  CORRECTION_WINDOW_HOURS: 24
+} as const;
+
+/**
+ * LLM adjudication of contested spans (src/lib/adjudication.ts)
+ */
+export const ADJUDICATION_CONFIG = {
+  /** Most contested spans sent to the model per consensus, most severe first */
+  MAX_SPANS: 20,
+  /** Longest candidate wording sent, in words; longer spans are not short phrases */
+  MAX_SPAN_WORDS: 6,
+  /** Consensus words of context on each side of a span */
+  CONTEXT_WORDS: 12,
+  /** Time allowed for the model's answer (milliseconds) */
+  TIMEOUT_MS: 20000,
+  /** Longest rationale kept per span (characters) */
+  MAX_RATIONALE_CHARS: 300
+} as const;
+
 // ========= TYPE DEFINITIONS FOR CONFIG =========
 
 export type ConsensusConfig = typeof CONSENSUS_CONFIG;
@@ -145,3 +268,9 @@ export type UIConfig = typeof UI_CONFIG;
 export type PerformanceConfig = typeof PERFORMANCE_CONFIG;
 export type QualityConfig = typeof QUALITY_CONFIG;
 export type ErrorConfig = typeof ERROR_CONFIG;
+export type JobConfig = typeof JOB_CONFIG;
+export type HealthConfig = typeof HEALTH_CONFIG;
+export type LiveConfig = typeof LIVE_CONFIG;
+export type EvaluationConfig = typeof EVALUATION_CONFIG;
+export type ReliabilityConfig = typeof RELIABILITY_CONFIG;
+export type AdjudicationConfig = typeof ADJUDICATION_CONFIG;
@@ -0,0 +1,368 @@
+/**
+ * @file consensus-pipeline.ts
+ * @purpose Turns the results of one transcription request into the final ConsensusResult
+ * @phazzie-status working
+ * @dependencies processors.ts contract, language.ts, cost.ts, retry.ts, evaluation.ts, reliability.ts, adjudication.ts
+ *
+ * Shared by /api/transcribe, which finishes most requests immediately, and by long-running jobs,
+ * which finish when their last provider reports back. Everything the pipeline needs besides the
+ * results is in a serializable ConsensusContext, so a job can store it and finish later.
+ */
+
+import type {
+  ComparisonEngine,
+  ComparisonOptions,
+  ConsensusMode,
+  ConsensusResult,
+  LanguageReport,
+  ProcessingTask,
+  ProcessorEnv,
+  ReasoningStep,
+  StrategyOutcome,
+  TranscriptionResult,
+  TranslationConsensus
+} from '../contracts/processors';
+import { adjudicateContestedSpans, adjudicationStep, resolveAdjudicator, type AdjudicationReport } from './adjudication';
+import type { AudioDuration } from './audio-duration';
+import { costByService, formatUsd, resolveBilledDuration, type SkippedService } from './cost';
+import { buildLanguageReport, languageName, type RequestedLanguage } from './language';
+import { evaluateAgainstReference, evaluateTranscript, evaluationStep } from './evaluation';
+import {
+  keepForCorrection,
+  loadReliabilityWeights,
+  recordConsensusOutcome,
+  reliabilityStep,
+  serviceWeights,
+  type ReliabilityWeights
+} from './reliability';
+import type { AttemptRecord } from './retry';
+
+/** How one service's processing went, for the reasoning steps. */
+export interface ServiceAttempts {
+  serviceName: string;
+  succeeded: boolean;
+  attempts: AttemptRecord[];
+  /** 'translate' for the service's English translation run. */
+  task?: ProcessingTask;
+  /** Set when the service ran as a provider job that finished after the request returned. */
+  job?: { transcriptId: string; completedVia: 'webhook' | 'polling' };
+}
+
+/** Request settings and pre-processing facts the consensus step reports on. */
+export interface ConsensusContext {
+  consensusMode: ConsensusMode;
+  /** Service names in order of preference, for 'preferred-service-with-fallback'. */
+  preferredServices?: string[];
+  /** Further strategies to run over the same results, reported side by side in `strategies`. */
+  compareStrategies?: ConsensusMode[];
+  language: RequestedLanguage;
+  excludeLanguageMismatches: boolean;
+  vocabulary: string[];
+  /** Also build a consensus over the services' English translations. */
+  translate: boolean;
+  /** Reference transcript to score the services and the consensus against. */
+  reference?: string;
+  /** Let the configured language model choose between the services' wordings of short contested spans. */
+  adjudicate?: boolean;
+  /** Historical per-service weights, loaded by `finalizeWithReliability` just before the consensus. */
+  reliability?: ReliabilityWeights;
+  hintedByService: Record<string, string | undefined>;
+  detectedDuration: AudioDuration;
+  /** Cost per minute of each processed service, in USD. */
+  costRates: Record<string, number>;
+  estimatedCostByService: Record<string, number>;
+  maxBudgetUsd?: number;
+  skippedServices: SkippedService[];
+  serviceAttempts: ServiceAttempts[];
+}
+
+/** The engine's consensus before the request's reporting is added. */
+interface ComparedResults {
+  consensusResult: ConsensusResult;
+  /** Results the consensus was built from (language mismatches left out). */
+  consensusInputs: TranscriptionResult[];
+  languageReport: LanguageReport;
+  comparisonOptions: ComparisonOptions;
+  /** `comparisonOptions` with the reliability weights. */
+  weightedOptions: ComparisonOptions;
+}
+
+/**
+ * Runs the comparison engine over `results` (at least one) and adds the language report, cost
+ * stats and the request's reasoning steps. Falls back to the fastest result if the engine fails.
+ * With `context.translate`, `translations` get a consensus of their own in `translation`; with
+ * `context.reference`, every service and the consensus are scored against it in `evaluation`; with
+ * `context.compareStrategies`, the other strategies' outputs are listed in `strategies`.
+ * Adjudication needs the network, so only `finalizeWithReliability` runs it.
+ */
+export function finalizeConsensus(
+  engine: ComparisonEngine,
+  context: ConsensusContext,
+  results: TranscriptionResult[],
+  translations: TranscriptionResult[] = []
+): ConsensusResult {
+  return completeConsensus(engine, context, results, translations, compareResults(engine, context, results));
+}
+
+function compareResults(engine: ComparisonEngine, context: ConsensusContext, results: TranscriptionResult[]): ComparedResults {
+  // Services that transcribed in another language would only add noise to the consensus
+  const languageReport = buildLanguageReport(context.language, results, context.hintedByService);
+  let consensusInputs = results;
+  if (context.excludeLanguageMismatches && languageReport.mismatchedServices.length > 0) {
+    const matching = results.filter(r => !languageReport.mismatchedServices.includes(r.serviceName));
+    if (matching.length > 0) {
+      consensusInputs = matching;
+      languageReport.excludedServices = [...languageReport.mismatchedServices];
+    }
+  }
+
+  const comparisonOptions: ComparisonOptions = {
+    mode: context.consensusMode,
+    vocabulary: context.vocabulary,
+    preferredServices: context.preferredServices
+  };
+  const weightedOptions: ComparisonOptions = {
+    ...comparisonOptions,
+    ...(context.reliability ? { serviceWeights: serviceWeights(context.reliability) } : {})
+  };
+  const consensusResult = compareWithFallback(engine, consensusInputs, weightedOptions);
+  consensusResult.languages = languageReport;
+  return { consensusResult, consensusInputs, languageReport, comparisonOptions, weightedOptions };
+}
+
+function completeConsensus(
+  engine: ComparisonEngine,
+  context: ConsensusContext,
+  results: TranscriptionResult[],
+  translations: TranscriptionResult[],
+  { consensusResult, consensusInputs, languageReport, comparisonOptions, weightedOptions }: ComparedResults,
+  adjudication?: AdjudicationReport
+): ConsensusResult {
+  // Excluded services were still billed
+  const billedDuration = resolveBilledDuration(context.detectedDuration, results);
+  consensusResult.stats = {
+    ...consensusResult.stats,
+    audioDurationSeconds: billedDuration.seconds,
+    durationSource: billedDuration.source,
+    ...costByService(context.costRates, results, billedDuration)
+  };
+
+  // Translations are compared only with each other, unweighted (reliability is measured on transcripts); they are billed for the same audio
+  let translation: TranslationConsensus | undefined;
+  if (context.translate && translations.length > 0) {
+    const translated = compareWithFallback(engine, translations, comparisonOptions);
+    translated.stats = {
+      ...translated.stats,
+      audioDurationSeconds: billedDuration.seconds,
+      durationSource: billedDuration.source,
+      ...costByService(context.costRates, translations, billedDuration)
+    };
+    translation = { ...translated, targetLanguage: 'en' };
+    consensusResult.translation = translation;
+  }
+
+  const { steps } = consensusResult.reasoning;
+  for (const service of context.serviceAttempts) {
+    steps.push({
+      stepNumber: steps.length + 1,
+      description: describeAttempts(service),
+      data: { serviceName: service.serviceName, attempts: service.attempts, ...(service.job ? { job: service.job } : {}) }
+    });
+  }
+  const { skippedServices, maxBudgetUsd } = context;
+  if (skippedServices.length > 0) {
+    steps.push({
+      stepNumber: steps.length + 1,
+      description: `Skipped ${skippedServices.length} service${skippedServices.length === 1 ? '' : 's'}: ${skippedServices.map(s => s.serviceName).join(', ')}.`,
+      data: { skippedServices, maxBudgetUsd }
+    });
+  }
+  steps.push({
+    stepNumber: steps.length + 1,
+    description: describeLanguages(languageReport),
+    data: { ...languageReport }
+  });
+  if (context.reliability) {
+    steps.push(reliabilityStep(context.reliability, steps.length + 1));
+  }
+  if (adjudication) {
+    steps.push(adjudicationStep(adjudication, steps.length + 1));
+  }
+  if (context.translate) {
+    steps.push({
+      stepNumber: steps.length + 1,
+      description: translation
+        ? `Built a separate consensus over ${translations.length} English translation${translations.length === 1 ? '' : 's'} (${translations.map(t => t.serviceName).join(', ')}).`
+        : 'Translation was requested but no service produced one.',
+      data: translation ? { services: translations.map(t => t.serviceName), finalText: translation.finalText } : {}
+    });
+  }
+  if (context.reference) {
+    // Excluded services are scored too: the point is comparing every provider with the consensus
+    consensusResult.evaluation = evaluateAgainstReference(context.reference, consensusResult.finalText, results);
+    steps.push(evaluationStep(consensusResult.evaluation, steps.length + 1));
+  }
+  if (context.compareStrategies && context.compareStrategies.length > 0) {
+    consensusResult.strategies = compareStrategies(
+      engine, consensusInputs, weightedOptions, consensusResult, context.compareStrategies, context.reference
+    );
+    steps.push(strategiesStep(consensusResult.strategies, steps.length + 1));
+  }
+  const translationCost = translation?.stats.totalCostUsd ?? 0;
+  steps.push({
+    stepNumber: steps.length + 1,
+    description: `Cost: ${formatUsd(consensusResult.stats.totalCostUsd ?? 0)} for ${billedDuration.seconds.toFixed(1)}s of audio (duration from ${billedDuration.source})` +
+      (translation ? `, plus ${formatUsd(translationCost)} for translation.` : '.'),
+    data: {
+      costByService: consensusResult.stats.costByService,
+      translationCostByService: translation?.stats.costByService,
+      estimatedCostByService: context.estimatedCostByService,
+      maxBudgetUsd
+    }
+  });
+
+  return consensusResult;
+}
+
+/**
+ * `finalizeConsensus` with historical reliability: loads the services' weights (preferring the
+ * language's own history) into the context first, and records how each service did afterwards,
+ * keeping their transcripts for a user correction (`correctionId`).
+ * Failures of the history file are logged and never fail the consensus. With `context.adjudicate`,
+ * the language model's choices for contested spans are applied before the evaluation and the
+ * reliability record, so both see the final text; `signal` cancels the model call.
+ */
+export async function finalizeWithReliability(
+  env: ProcessorEnv,
+  engine: ComparisonEngine,
+  context: ConsensusContext,
+  results: TranscriptionResult[],
+  translations: TranscriptionResult[] = [],
+  signal?: AbortSignal
+): Promise<ConsensusResult> {
+  const language = buildLanguageReport(context.language, results, context.hintedByService).expected;
+  try {
+    context.reliability = await loadReliabilityWeights(env, results.map(r => r.serviceName), language);
+  } catch (error) {
+    console.warn('Could not load reliability weights; comparing services equally.', error);
+  }
+  const compared = compareResults(engine, context, results);
+  const adjudicator = context.adjudicate ? resolveAdjudicator(env) : null;
+  const adjudication = adjudicator ? await adjudicateContestedSpans(adjudicator, compared.consensusResult, { signal }) : undefined;
+  const consensusResult = completeConsensus(engine, context, results, translations, compared, adjudication);
+  try {
+    await recordConsensusOutcome(env, consensusResult, language);
+    consensusResult.correctionId = await keepForCorrection(env, consensusResult, language);
+  } catch (error) {
+    console.warn('Could not record service reliability.', error);
+  }
+  return consensusResult;
+}
+
+/**
+ * `chosen` (the consensus under `options.mode`) followed by what each of `strategies` makes of the
+ * same inputs, with their WER when there is a `reference`.
+ */
+export function compareStrategies(
+  engine: ComparisonEngine,
+  inputs: TranscriptionResult[],
+  options: ComparisonOptions,
+  chosen: ConsensusResult,
+  strategies: ConsensusMode[],
+  reference?: string
+): StrategyOutcome[] {
+  const outcome = (strategy: ConsensusMode, result: ConsensusResult): StrategyOutcome => ({
+    strategy,
+    finalText: result.finalText,
+    consensusConfidence: result.consensusConfidence,
+    disagreementCount: result.disagreements.length,
+    finalReasoning: result.reasoning.finalReasoning,
+    ...(reference ? { wer: evaluateTranscript(reference, result.finalText).wer } : {})
+  });
+  return [
+    outcome(options.mode ?? 'medoid', chosen),
+    ...strategies.map(strategy => outcome(strategy, compareWithFallback(engine, inputs, { ...options, mode: strategy })))
+  ];
+}
+
+/**
+ * Reasoning step summarizing a strategy comparison, the chosen strategy first.
+ */
+export function strategiesStep(outcomes: StrategyOutcome[], stepNumber: number): ReasoningStep {
+  const [chosen, ...others] = outcomes;
+  const differing = others.filter(o => o.finalText !== chosen.finalText).map(o => o.strategy);
+  return {
+    stepNumber,
+    description: `Also ran ${others.map(o => o.strategy).join(', ')} over the same results for comparison; ` +
+      (differing.length > 0 ? `${differing.join(', ')} produced a different text than ${chosen.strategy}.` : `all produced the same text as ${chosen.strategy}.`),
+    data: {
+      strategies: outcomes.map(({ strategy, consensusConfidence, disagreementCount, wer }) => ({ strategy, consensusConfidence, disagreementCount, wer }))
+    }
+  };
+}
+
+/**
+ * Runs the comparison engine, falling back to the fastest result if it throws.
+ */
+function compareWithFallback(engine: ComparisonEngine, inputs: TranscriptionResult[], options: ComparisonOptions): ConsensusResult {
+  try {
+    return engine.compareTranscriptions(inputs, options);
+  } catch (consensusError) {
+    console.warn('Consensus engine failed, using fallback.', consensusError);
+    // Fallback: pick the fastest successful result
+    const bestResult = inputs.reduce((best, cur) =>
+      (cur.processingTimeMs || Infinity) < (best.processingTimeMs || Infinity) ? cur : best
+    );
+
+    const withConf = inputs.filter(r => r.confidence !== undefined);
+    const averageConfidence = withConf.length
+      ? withConf.reduce((s, r) => s + (r.confidence ?? 0), 0) / withConf.length
+      : 0;
+
+    return {
+      finalText: bestResult.text,
+      consensusConfidence: bestResult.confidence ?? 0,
+      individualResults: inputs,
+      disagreements: [],
+      stats: {
+        totalProcessingTimeMs: Math.max(...inputs.map(r => r.processingTimeMs || 0)),
+        servicesUsed: inputs.length,
+        averageConfidence: averageConfidence,
+        disagreementCount: 0
+      },
+      reasoning: {
+        finalReasoning: `Consensus algorithm failed. Fallback to fastest provider: ${bestResult.serviceName}.`,
+        steps: [{
+          stepNumber: 1,
+          description: 'The main consensus engine failed. Using fallback logic.',
+          data: {
+            selectedService: bestResult.serviceName,
+            error: consensusError instanceof Error ? consensusError.message : String(consensusError)
+          },
+        }]
+      }
+    };
+  }
+}
+
+function describeAttempts({ serviceName: name, succeeded, attempts, job, task }: ServiceAttempts): string {
+  const serviceName = task === 'translate' ? `${name} translation` : name;
+  const last = attempts[attempts.length - 1];
+  if (job) {
+    return succeeded
+      ? `${serviceName} finished as a background job (result received by ${job.completedVia}).`
+      : `${serviceName} background job failed (${last?.error ?? 'unknown error'}).`;
+  }
+  return succeeded
+    ? `${serviceName} succeeded on attempt ${attempts.length}.`
+    : `${serviceName} failed after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'} (${last?.outcome ?? 'unknown'}).`;
+}
+
+function describeLanguages({ requested, expected, mismatchedServices: mismatched, excludedServices: excluded }: LanguageReport): string {
+  const base = requested === 'auto'
+    ? (expected ? `Detected language: ${languageName(expected)} (${expected}).` : 'No service reported a language.')
+    : `Requested language: ${languageName(requested)} (${requested}).`;
+  if (mismatched.length === 0) return base;
+  const verb = excluded.length > 0 ? 'excluded from the consensus' : 'kept in the consensus';
+  return `${base} ${mismatched.join(', ')} reported a different language and ${mismatched.length === 1 ? 'was' : 'were'} ${verb}.`;
+}
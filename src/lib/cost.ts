@@ -0,0 +1,111 @@
+/**
+ * @file cost.ts
+ * @purpose Per-service cost estimates, budget selection and billed cost for a request
+ * @phazzie-status working
+ * @dependencies processors.ts contract, audio-duration.ts
+ *
+ * Costs come from each processor's `getCostPerMinute()` and the audio duration. Before processing
+ * they are estimates used for the budget; afterwards they are recomputed from the best known
+ * duration and reported in `ConsensusStats`.
+ */
+
+import type { AudioProcessor, TranscriptionResult } from '../contracts/processors';
+import type { AudioDuration } from './audio-duration';
+
+/** A service left out of a request, with the reason shown in `reasoning.steps`. */
+export interface SkippedService {
+  serviceName: string;
+  reason: string;
+}
+
+export interface BudgetSelection {
+  selected: AudioProcessor[];
+  skipped: SkippedService[];
+  /** Estimated cost of each selected service, in USD. */
+  estimatedCostByService: Record<string, number>;
+}
+
+export function roundUsd(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 0.01 ? 4 : 2)}`;
+}
+
+async function costFor(processor: AudioProcessor, seconds: number): Promise<number> {
+  return roundUsd(((await processor.getCostPerMinute()) * seconds) / 60);
+}
+
+/**
+ * Keeps the cheapest services whose combined estimated cost stays within `maxBudgetUsd`
+ * (all of them when there is no budget), so a tight budget still gets as many opinions as it can afford.
+ */
+export async function selectWithinBudget(
+  processors: AudioProcessor[],
+  duration: AudioDuration,
+  maxBudgetUsd?: number
+): Promise<BudgetSelection> {
+  const estimates = await Promise.all(processors.map(async processor => ({ processor, cost: await costFor(processor, duration.seconds) })));
+  const selected: AudioProcessor[] = [];
+  const skipped: SkippedService[] = [];
+  const estimatedCostByService: Record<string, number> = {};
+
+  let runningTotal = 0;
+  for (const { processor, cost } of [...estimates].sort((a, b) => a.cost - b.cost)) {
+    if (maxBudgetUsd !== undefined && runningTotal + cost > maxBudgetUsd) {
+      skipped.push({
+        serviceName: processor.serviceName,
+        reason: `Estimated ${formatUsd(cost)} for ${duration.seconds.toFixed(1)}s of audio would bring the total to ${formatUsd(runningTotal + cost)}, over the ${formatUsd(maxBudgetUsd)} budget.`
+      });
+      continue;
+    }
+    runningTotal += cost;
+    estimatedCostByService[processor.serviceName] = cost;
+    selected.push(processor);
+  }
+
+  // Keep the caller's service order for processing and display.
+  selected.sort((a, b) => processors.indexOf(a) - processors.indexOf(b));
+  return { selected, skipped, estimatedCostByService };
+}
+
+/**
+ * The duration to bill by: exact header durations win; estimates are replaced by the median
+ * duration the providers reported, when any did.
+ */
+export function resolveBilledDuration(detected: AudioDuration, results: TranscriptionResult[]): AudioDuration {
+  if (detected.source !== 'size-estimate' && detected.source !== 'mp3-bitrate') return detected;
+  const reported = results
+    .map(r => Number(r.metadata?.durationSeconds))
+    .filter(seconds => Number.isFinite(seconds) && seconds > 0)
+    .sort((a, b) => a - b);
+  if (reported.length === 0) return detected;
+  return { seconds: reported[Math.floor(reported.length / 2)], source: 'provider-reported' };
+}
+
+/**
+ * Each processor's cost per minute, by service name. Kept with long-running jobs so their cost
+ * can be reported when they finish.
+ */
+export async function getCostRates(processors: AudioProcessor[]): Promise<Record<string, number>> {
+  const rates: Record<string, number> = {};
+  for (const processor of processors) rates[processor.serviceName] = await processor.getCostPerMinute();
+  return rates;
+}
+
+/**
+ * Cost of every service that returned a result. Failed services are not included.
+ */
+export function costByService(
+  costRates: Record<string, number>,
+  results: TranscriptionResult[],
+  duration: AudioDuration
+): { costByService: Record<string, number>; totalCostUsd: number } {
+  const costs: Record<string, number> = {};
+  for (const result of results) {
+    const rate = costRates[result.serviceName];
+    if (rate !== undefined) costs[result.serviceName] = roundUsd((rate * duration.seconds) / 60);
+  }
+  return { costByService: costs, totalCostUsd: roundUsd(Object.values(costs).reduce((sum, c) => sum + c, 0)) };
+}
@@ -0,0 +1,169 @@
+/**
+ * @file evaluation.ts
+ * @purpose Scores transcripts against a reference transcript: WER, CER and the edits behind them
+ * @phazzie-status working
+ * @dependencies transcription.ts contract, text-normalization.ts, sequence-diff.ts, config.ts
+ *
+ * Both texts are normalized with the consensus rules first, so "25%" against a reference saying
+ * "twenty five percent" is not an error; the edits report the original wording of both sides.
+ * CER counts character edits along the word alignment (a substituted word costs its character
+ * edit distance, a missing or extra word its length plus a space), which keeps long transcripts
+ * cheap to score; the word alignment itself is banded (see sequence-diff.ts).
+ */
+
+import type {
+  EvaluationEdit,
+  EvaluationReport,
+  ReasoningStep,
+  TranscriptEvaluation,
+  TranscriptionResult
+} from '../contracts/transcription';
+import type { NormalizationRule } from '../contracts/processors';
+import { CONSENSUS_CONFIG, EVALUATION_CONFIG } from './config';
+import { ALIGN_PAIR, ALIGN_PATTERN_ONLY, alignSequences, WordInterner } from './sequence-diff';
+import { normalizeWords } from './text-normalization';
+
+/**
+ * Parses the request's reference transcript; an empty value means no evaluation.
+ */
+export function parseReference(raw: unknown): { reference: string | undefined } | { error: string } {
+  if (raw === undefined || raw === null) return { reference: undefined };
+  if (typeof raw !== 'string') return { error: 'reference must be text.' };
+  const reference = raw.trim();
+  if (!reference) return { reference: undefined };
+  if (reference.length > EVALUATION_CONFIG.MAX_REFERENCE_CHARS) {
+    return { error: `reference is ${reference.length} characters; at most ${EVALUATION_CONFIG.MAX_REFERENCE_CHARS} are allowed.` };
+  }
+  return { reference };
+}
+
+interface EvaluationWord {
+  norm: string;
+  surface: string;
+}
+
+function evaluationWords(text: string, rules: readonly NormalizationRule[]): EvaluationWord[] {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  return normalizeWords(words, rules).map(({ norm, first, last }) => ({ norm, surface: words.slice(first, last + 1).join(' ') }));
+}
+
+function characterDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Aligns `hypothesis` to `reference` word by word (minimum edit distance) and counts the errors.
+ */
+export function evaluateTranscript(
+  reference: string,
+  hypothesis: string,
+  rules: readonly NormalizationRule[] = CONSENSUS_CONFIG.NORMALIZATION_RULES
+): TranscriptEvaluation {
+  const ref = evaluationWords(reference, rules);
+  const hyp = evaluationWords(hypothesis, rules);
+  const interner = new WordInterner();
+  const refIds = ref.map(word => [interner.id(word.norm)]);
+  const hypIds = hyp.map(word => interner.id(word.norm));
+
+  const aligned: EvaluationEdit[] = [];
+  let substitutions = 0;
+  let insertions = 0;
+  let deletions = 0;
+  let characterEdits = 0;
+  let i = 0;
+  let j = 0;
+  for (const step of alignSequences(refIds, hypIds, interner.size)) {
+    if (step === ALIGN_PAIR) {
+      const r = ref[i++];
+      const h = hyp[j++];
+      if (r.norm === h.norm) {
+        aligned.push({ op: 'match', reference: r.surface, hypothesis: h.surface });
+      } else {
+        substitutions++;
+        characterEdits += characterDistance(r.norm, h.norm);
+        aligned.push({ op: 'substitution', reference: r.surface, hypothesis: h.surface });
+      }
+    } else if (step === ALIGN_PATTERN_ONLY) {
+      deletions++;
+      characterEdits += ref[i].norm.length + 1;
+      aligned.push({ op: 'deletion', reference: ref[i++].surface });
+    } else {
+      insertions++;
+      characterEdits += hyp[j].norm.length + 1;
+      aligned.push({ op: 'insertion', hypothesis: hyp[j++].surface });
+    }
+  }
+
+  // Merge runs of correct words to keep the payload small
+  const edits: EvaluationEdit[] = [];
+  for (const edit of aligned) {
+    const last = edits[edits.length - 1];
+    if (edit.op === 'match' && last?.op === 'match') {
+      last.reference += ` ${edit.reference}`;
+      last.hypothesis += ` ${edit.hypothesis}`;
+    } else {
+      edits.push(edit);
+    }
+  }
+
+  // Each word with its separating space, so a transcript missing every word has a CER of exactly 1
+  const referenceChars = ref.reduce((sum, word) => sum + word.norm.length + 1, 0);
+  return {
+    wer: ref.length > 0 ? (substitutions + insertions + deletions) / ref.length : (hyp.length > 0 ? 1 : 0),
+    cer: referenceChars > 0 ? characterEdits / referenceChars : (hyp.length > 0 ? 1 : 0),
+    substitutions,
+    insertions,
+    deletions,
+    referenceWords: ref.length,
+    edits
+  };
+}
+
+/**
+ * Scores the consensus text and every service's transcript against the reference.
+ */
+export function evaluateAgainstReference(
+  reference: string,
+  finalText: string,
+  results: TranscriptionResult[],
+  rules?: readonly NormalizationRule[]
+): EvaluationReport {
+  const byService: Record<string, TranscriptEvaluation> = {};
+  for (const result of results) byService[result.serviceName] = evaluateTranscript(reference, result.text ?? '', rules);
+  const consensus = evaluateTranscript(reference, finalText, rules);
+
+  const [bestService, best] = Object.entries(byService).sort((a, b) => a[1].wer - b[1].wer)[0] ?? ['', consensus];
+  return { consensus, byService, bestService, werDeltaVsBest: consensus.wer - best.wer };
+}
+
+/**
+ * Reasoning step summarizing the evaluation.
+ */
+export function evaluationStep(report: EvaluationReport, stepNumber: number): ReasoningStep {
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+  const { consensus, bestService, werDeltaVsBest } = report;
+  const bestWer = report.byService[bestService]?.wer ?? consensus.wer;
+  const verdict = werDeltaVsBest < 0
+    ? `better than the best single service, ${bestService} (${percent(bestWer)})`
+    : werDeltaVsBest > 0
+      ? `worse than the best single service, ${bestService} (${percent(bestWer)})`
+      : `the same as the best single service, ${bestService}`;
+  return {
+    stepNumber,
+    description: `Compared with the reference transcript (${consensus.referenceWords} words): consensus WER ${percent(consensus.wer)}, CER ${percent(consensus.cer)}, ${verdict}.`,
+    data: {
+      consensus: { wer: consensus.wer, cer: consensus.cer, substitutions: consensus.substitutions, insertions: consensus.insertions, deletions: consensus.deletions },
+      byService: Object.fromEntries(Object.entries(report.byService).map(([name, e]) => [name, { wer: e.wer, cer: e.cer }])),
+      bestService,
+      werDeltaVsBest
+    }
+  };
+}
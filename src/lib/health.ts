@@ -0,0 +1,102 @@
+/**
+ * @file health.ts
+ * @purpose Probes providers with cheap authenticated requests and caches the results briefly
+ * @phazzie-status working
+ * @dependencies processors.ts contract, config.ts (HEALTH_CONFIG), recording.ts (transcribe mode)
+ *
+ * `isAvailable()` only says whether credentials are configured; a revoked key or a provider outage
+ * shows up here instead. /api/health runs the probes (the upload page calls it on load), and
+ * /api/transcribe skips services whose cached probe found them down without probing itself.
+ */
+
+import type { HealthProbe, ProcessingOptions, ProcessorEnv, ProcessorInstance, ServiceHealth } from '../contracts/processors';
+import { HEALTH_CONFIG } from './config';
+import { getTranscribeMode } from './recording';
+
+interface CacheEntry {
+  probedAt: number;
+  expiresAt: number;
+  health: Promise<ServiceHealth>;
+}
+
+// Keyed by service name; concurrent callers share one in-flight probe
+const healthCache = new Map<string, CacheEntry>();
+
+/**
+ * Runs `fetch(url, init)` as a probe: 2xx is up, 401/403 means the credentials were rejected,
+ * anything else (other statuses, network errors, timeouts) is down.
+ */
+export async function probeHttp(url: string, init: RequestInit, options: ProcessingOptions = {}): Promise<HealthProbe> {
+  try {
+    const response = await (options.fetch ?? fetch)(url, { ...init, signal: options.signal });
+    // Only the status matters; release the connection
+    await response.body?.cancel().catch(() => {});
+    if (response.ok) return { status: 'up', httpStatus: response.status };
+    if (response.status === 401 || response.status === 403) {
+      return { status: 'auth-failed', httpStatus: response.status, error: `Credentials rejected (HTTP ${response.status}).` };
+    }
+    return { status: 'down', httpStatus: response.status, error: `HTTP ${response.status} ${response.statusText}`.trim() };
+  } catch (error) {
+    return { status: 'down', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+async function probe(instance: ProcessorInstance): Promise<ServiceHealth> {
+  const startTime = Date.now();
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Settles even if a probe ignores the abort signal
+  const timeout = new Promise<HealthProbe>(resolve => {
+    timer = setTimeout(() => {
+      const error = `No response within ${HEALTH_CONFIG.PROBE_TIMEOUT_MS}ms.`;
+      controller.abort(new Error(error));
+      resolve({ status: 'down', error });
+    }, HEALTH_CONFIG.PROBE_TIMEOUT_MS);
+  });
+  let result: HealthProbe;
+  try {
+    result = await Promise.race([instance.processor.checkHealth({ signal: controller.signal }), timeout]);
+  } catch (error) {
+    result = { status: 'down', error: error instanceof Error ? error.message : 'Unknown error' };
+  } finally {
+    clearTimeout(timer);
+  }
+  return { ...result, latencyMs: Date.now() - startTime, checkedAt: new Date(startTime).toISOString() };
+}
+
+/**
+ * Health of each instance, keyed by service name. Cached results are reused for
+ * HEALTH_CONFIG.CACHE_TTL_MS ('down' ones for HEALTH_CONFIG.DOWN_CACHE_TTL_MS); `refresh` probes again unless the last probe is younger than
+ * HEALTH_CONFIG.MIN_REFRESH_INTERVAL_MS, so callers cannot flood the providers.
+ */
+export async function checkServices(instances: ProcessorInstance[], refresh = false): Promise<Record<string, ServiceHealth>> {
+  const now = Date.now();
+  const entries = instances.map(instance => {
+    const serviceName = instance.processor.serviceName;
+    let entry = healthCache.get(serviceName);
+    const refreshDue = refresh && now - (entry?.probedAt ?? 0) >= HEALTH_CONFIG.MIN_REFRESH_INTERVAL_MS;
+    if (!entry || refreshDue || entry.expiresAt <= now) {
+      const probed: CacheEntry = { probedAt: now, expiresAt: now + HEALTH_CONFIG.CACHE_TTL_MS, health: probe(instance) };
+      probed.health = probed.health.then(health => {
+        if (health.status === 'down') probed.expiresAt = now + HEALTH_CONFIG.DOWN_CACHE_TTL_MS;
+        return health;
+      });
+      entry = probed;
+      healthCache.set(serviceName, entry);
+    }
+    return entry.health.then(health => [serviceName, health] as const);
+  });
+  return Object.fromEntries(await Promise.all(entries));
+}
+
+/**
+ * The cached probe result for a service that is currently known to be down or to reject its
+ * credentials; undefined when it is up, was not probed recently, or providers are being replayed.
+ */
+export async function knownUnhealthy(env: ProcessorEnv, serviceName: string): Promise<ServiceHealth | undefined> {
+  if (getTranscribeMode(env) === 'replay') return undefined;
+  const entry = healthCache.get(serviceName);
+  if (!entry || entry.expiresAt <= Date.now()) return undefined;
+  const health = await entry.health;
+  return health.status === 'up' ? undefined : health;
+}
@@ -0,0 +1,312 @@
+/**
+ * @file jobs.ts
+ * @purpose Long-running transcription jobs: persistence, provider webhooks and polling
+ * @phazzie-status working
+ * @dependencies processors.ts contract, consensus-pipeline.ts, config.ts (JOB_CONFIG), Node fs/crypto (server-only)
+ *
+ * When a recording is too long for a provider to finish within one request, /api/transcribe submits
+ * it to the provider as a job, finishes the other services as usual, and stores everything here as
+ * `<TRANSCRIBE_JOBS_DIR>/<job id>.json`. The provider reports back through /api/assemblyai/webhook
+ * (when JOB_WEBHOOK_BASE_URL is set); GET /api/jobs/[id] also polls with backoff, so jobs finish
+ * without a public URL too. The consensus is built once the last pending transcript arrives.
+ *
+ * Updates to one job are serialized within this process. Deployments running several instances
+ * against one jobs directory can race on the same job; the last write wins.
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  supportsJobs,
+  type AudioProcessor,
+  type ComparisonEngine,
+  type ConsensusResult,
+  type JobWebhook,
+  type ProcessorEnv,
+  type TranscriptionResult
+} from '../contracts/processors';
+import { JOB_CONFIG } from './config';
+import { finalizeWithReliability, type ConsensusContext } from './consensus-pipeline';
+
+const DEFAULT_JOBS_DIR = '.data/jobs';
+/** Header carrying the job's webhook token on provider callbacks. */
+export const WEBHOOK_AUTH_HEADER = 'x-job-token';
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export type JobStatus = 'pending' | 'completed' | 'failed';
+
+/** A provider transcript that has been submitted but has not reported back yet. */
+export interface PendingTranscript {
+  serviceName: string;
+  transcriptId: string;
+  submittedAt: string;
+  /** Earliest time GET /api/jobs/[id] polls the provider again. */
+  nextPollAt: string;
+  pollIntervalMs: number;
+}
+
+export interface TranscriptionJob {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Transcripts still pending at this time are given up on. */
+  deadline: string;
+  /** Secret the provider sends back in the webhook auth header. */
+  webhookToken: string;
+  context: ConsensusContext;
+  /** Results received so far, including those of the services that finished with the request. */
+  results: TranscriptionResult[];
+  /** English translations, all produced with the request (no job-capable service translates). */
+  translations: TranscriptionResult[];
+  pending: PendingTranscript[];
+  /** The request that started the job is still running its immediate services. */
+  awaitingRequest?: boolean;
+  result?: ConsensusResult;
+  error?: string;
+}
+
+/** What GET /api/jobs/[id] returns. */
+export interface JobSummary {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  pendingServices: string[];
+  completedServices: string[];
+  result?: ConsensusResult;
+  error?: string;
+}
+
+export function getJobsDir(env: ProcessorEnv): string {
+  return path.resolve(env.TRANSCRIBE_JOBS_DIR?.trim() || DEFAULT_JOBS_DIR);
+}
+
+function jobTimeoutMs(env: ProcessorEnv): number {
+  const minutes = Number(env.JOB_TIMEOUT_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : JOB_CONFIG.DEFAULT_TIMEOUT_MINUTES) * 60 * 1000;
+}
+
+/**
+ * The webhook a provider should call for this job, or undefined when no public base URL is configured
+ * (the job then finishes by polling).
+ */
+export function jobWebhook(env: ProcessorEnv, job: TranscriptionJob): JobWebhook | undefined {
+  const base = env.JOB_WEBHOOK_BASE_URL?.trim().replace(/\/+$/, '');
+  if (!base) return undefined;
+  return {
+    url: `${base}/api/assemblyai/webhook?job=${job.id}`,
+    authHeaderName: WEBHOOK_AUTH_HEADER,
+    authHeaderValue: job.webhookToken
+  };
+}
+
+// ========= PERSISTENCE =========
+
+function jobPath(env: ProcessorEnv, id: string): string {
+  return path.join(getJobsDir(env), `${id}.json`);
+}
+
+export async function saveJob(env: ProcessorEnv, job: TranscriptionJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await mkdir(getJobsDir(env), { recursive: true });
+  // Write then rename, so readers never see a half-written job
+  const target = jobPath(env, job.id);
+  const temp = `${target}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(job, null, 2));
+  await rename(temp, target);
+}
+
+/**
+ * A new pending job with no transcripts yet; call `saveJob` as soon as its transcripts are submitted,
+ * so provider callbacks find it.
+ */
+export function newJob(env: ProcessorEnv, context: ConsensusContext): TranscriptionJob {
+  const now = new Date();
+  return {
+    id: randomUUID(),
+    status: 'pending',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    deadline: new Date(now.getTime() + jobTimeoutMs(env)).toISOString(),
+    webhookToken: randomBytes(24).toString('hex'),
+    context,
+    results: [],
+    translations: [],
+    pending: []
+  };
+}
+
+export async function loadJob(env: ProcessorEnv, id: string): Promise<TranscriptionJob | null> {
+  if (!JOB_ID_PATTERN.test(id)) return null;
+  let job: TranscriptionJob;
+  try {
+    job = JSON.parse(await readFile(jobPath(env, id), 'utf8'));
+  } catch {
+    return null;
+  }
+  // Dates do not survive JSON
+  for (const result of [...job.results, ...job.translations]) result.timestamp = new Date(result.timestamp);
+  return job;
+}
+
+const jobLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Loads a job, applies `mutate` and saves it, one update per job at a time.
+ */
+export async function updateJob(
+  env: ProcessorEnv,
+  id: string,
+  mutate: (job: TranscriptionJob) => Promise<void>
+): Promise<TranscriptionJob | null> {
+  const previous = jobLocks.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(async () => {
+    const job = await loadJob(env, id);
+    if (!job) return null;
+    await mutate(job);
+    await saveJob(env, job);
+    return job;
+  });
+  jobLocks.set(id, next);
+  try {
+    return await next;
+  } finally {
+    if (jobLocks.get(id) === next) jobLocks.delete(id);
+  }
+}
+
+// ========= COMPLETION =========
+
+export function addPendingTranscript(job: TranscriptionJob, serviceName: string, transcriptId: string): void {
+  const now = Date.now();
+  job.pending.push({
+    serviceName,
+    transcriptId,
+    submittedAt: new Date(now).toISOString(),
+    nextPollAt: new Date(now + JOB_CONFIG.POLL_INITIAL_DELAY_MS).toISOString(),
+    pollIntervalMs: JOB_CONFIG.POLL_INITIAL_DELAY_MS
+  });
+}
+
+/**
+ * Builds the consensus once nothing is pending and the starting request has added its results
+ * (or the deadline has passed without them). A job with no results at all fails.
+ */
+export async function finishJobIfReady(env: ProcessorEnv, job: TranscriptionJob, engine: ComparisonEngine): Promise<void> {
+  if (job.status !== 'pending' || job.pending.length > 0) return;
+  if (job.awaitingRequest && Date.now() <= Date.parse(job.deadline)) return;
+  if (job.results.length === 0) {
+    job.status = 'failed';
+    job.error = 'All AI services failed to process the audio file.';
+    return;
+  }
+  try {
+    job.result = await finalizeWithReliability(env, engine, job.context, job.results, job.translations);
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'Consensus failed.';
+  }
+}
+
+function settlePending(
+  job: TranscriptionJob,
+  pending: PendingTranscript,
+  outcome: { result: TranscriptionResult } | { error: string },
+  completedVia: 'webhook' | 'polling'
+): void {
+  job.pending = job.pending.filter(p => p !== pending);
+  const durationMs = Date.now() - Date.parse(pending.submittedAt);
+  const succeeded = 'result' in outcome;
+  if (succeeded) job.results.push(outcome.result);
+  job.context.serviceAttempts.push({
+    serviceName: pending.serviceName,
+    succeeded,
+    attempts: [succeeded
+      ? { attempt: 1, outcome: 'success', durationMs }
+      : { attempt: 1, outcome: 'fatal-error', durationMs, error: outcome.error }],
+    job: { transcriptId: pending.transcriptId, completedVia }
+  });
+}
+
+async function fetchPending(pending: PendingTranscript, processors: AudioProcessor[]): Promise<{ result: TranscriptionResult } | { error: string } | null> {
+  const processor = processors.find(p => p.serviceName === pending.serviceName);
+  if (!processor || !supportsJobs(processor)) {
+    return { error: `${pending.serviceName} is no longer configured on the server.` };
+  }
+  try {
+    const result = await processor.fetchJobResult(pending.transcriptId);
+    return result ? { result } : null;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Polls every pending transcript that is due, backing off between polls, and gives up on those
+ * past the job deadline. Finishes the job when nothing is left pending.
+ */
+export async function pollPendingTranscripts(
+  env: ProcessorEnv,
+  job: TranscriptionJob,
+  processors: AudioProcessor[],
+  engine: ComparisonEngine
+): Promise<void> {
+  const now = Date.now();
+  for (const pending of [...job.pending]) {
+    if (Date.parse(pending.nextPollAt) > now) continue;
+    const outcome = await fetchPending(pending, processors);
+    if (outcome) {
+      settlePending(job, pending, outcome, 'polling');
+    } else if (now > Date.parse(job.deadline)) {
+      settlePending(job, pending, { error: `No result by the job deadline (${job.deadline}).` }, 'polling');
+    } else {
+      pending.pollIntervalMs = Math.min(pending.pollIntervalMs * 2, JOB_CONFIG.POLL_MAX_DELAY_MS);
+      pending.nextPollAt = new Date(now + pending.pollIntervalMs).toISOString();
+    }
+  }
+  await finishJobIfReady(env, job, engine);
+}
+
+/**
+ * Handles a provider's completion callback for one transcript of a job.
+ * Returns false when the token does not match or the transcript is not pending in this job.
+ */
+export async function completeFromWebhook(
+  env: ProcessorEnv,
+  job: TranscriptionJob,
+  token: string,
+  transcriptId: string,
+  processors: AudioProcessor[],
+  engine: ComparisonEngine
+): Promise<boolean> {
+  const expected = Buffer.from(job.webhookToken);
+  const given = Buffer.from(token);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return false;
+
+  const pending = job.pending.find(p => p.transcriptId === transcriptId);
+  if (!pending) return false;
+
+  // The callback only says the transcript is done; fetch it to get the text (or the error).
+  const outcome = await fetchPending(pending, processors);
+  if (outcome) {
+    settlePending(job, pending, outcome, 'webhook');
+    await finishJobIfReady(env, job, engine);
+  }
+  return true;
+}
+
+export function summarizeJob(job: TranscriptionJob): JobSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    pendingServices: job.pending.map(p => p.serviceName),
+    completedServices: job.results.map(r => r.serviceName),
+    result: job.result,
+    error: job.error
+  };
+}
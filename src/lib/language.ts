@@ -0,0 +1,148 @@
+/**
+ * @file language.ts
+ * @purpose Shared language layer: parse the requested language, map it to each provider's code
+ *          format, and compare the languages services report
+ * @phazzie-status working
+ * @dependencies transcription.ts contract
+ *
+ * Providers disagree on conventions: Whisper takes ISO 639-1 and reports English names ("english"),
+ * Deepgram takes BCP-47, AssemblyAI uses its own codes ("en_us"), ElevenLabs reports ISO 639-3 ("eng").
+ * Internally a language is a lowercase ISO 639-1 code with an optional region ("en", "en-US").
+ */
+
+import type { LanguageReport, TranscriptionResult } from '../contracts/transcription';
+
+/** 'auto' lets providers detect the language; anything else is a normalized code. */
+export type RequestedLanguage = 'auto' | string;
+
+// [ISO 639-1, ISO 639-3, English name]
+const LANGUAGES: Array<[string, string, string]> = [
+  ['en', 'eng', 'english'], ['es', 'spa', 'spanish'], ['fr', 'fra', 'french'], ['de', 'deu', 'german'],
+  ['it', 'ita', 'italian'], ['pt', 'por', 'portuguese'], ['nl', 'nld', 'dutch'], ['ru', 'rus', 'russian'],
+  ['zh', 'zho', 'chinese'], ['ja', 'jpn', 'japanese'], ['ko', 'kor', 'korean'], ['ar', 'ara', 'arabic'],
+  ['hi', 'hin', 'hindi'], ['tr', 'tur', 'turkish'], ['pl', 'pol', 'polish'], ['sv', 'swe', 'swedish'],
+  ['da', 'dan', 'danish'], ['no', 'nor', 'norwegian'], ['fi', 'fin', 'finnish'], ['uk', 'ukr', 'ukrainian'],
+  ['cs', 'ces', 'czech'], ['el', 'ell', 'greek'], ['he', 'heb', 'hebrew'], ['id', 'ind', 'indonesian'],
+  ['vi', 'vie', 'vietnamese'], ['th', 'tha', 'thai'], ['ro', 'ron', 'romanian'], ['hu', 'hun', 'hungarian'],
+  ['ms', 'msa', 'malay'], ['ca', 'cat', 'catalan'], ['ta', 'tam', 'tamil'], ['ur', 'urd', 'urdu'],
+  ['fa', 'fas', 'persian']
+];
+
+const BY_ALIAS = new Map<string, string>();
+for (const [code, code3, name] of LANGUAGES) {
+  BY_ALIAS.set(code, code);
+  BY_ALIAS.set(code3, code);
+  BY_ALIAS.set(name, code);
+}
+
+/** Languages offered in the UI, as [code, English name]. */
+export const COMMON_LANGUAGES: Array<[string, string]> = LANGUAGES.map(([code, , name]) => [code, name.charAt(0).toUpperCase() + name.slice(1)]);
+
+/**
+ * Normalizes any common spelling of a language ("en", "EN_us", "eng", "English") to "en" / "en-US".
+ * Unknown but well-formed 2-3 letter codes pass through lowercased; anything else is undefined.
+ */
+export function normalizeLanguage(input: string | undefined | null): string | undefined {
+  const value = input?.trim().toLowerCase().replace(/_/g, '-');
+  if (!value) return undefined;
+  const byName = BY_ALIAS.get(value);
+  if (byName) return byName;
+
+  const match = /^([a-z]{2,3})(?:-([a-z0-9]{2,8}))?$/.exec(value);
+  if (!match) return undefined;
+  const base = BY_ALIAS.get(match[1]) ?? match[1];
+  if (!match[2]) return base;
+  // BCP-47 casing: regions upper case ("BR"), scripts title case ("Hans")
+  const subtag = match[2].length === 4 ? match[2].charAt(0).toUpperCase() + match[2].slice(1) : match[2].length === 2 ? match[2].toUpperCase() : match[2];
+  return `${base}-${subtag}`;
+}
+
+/** The base language without region, for comparisons ("en-US" -> "en"). */
+export function baseLanguage(code: string): string {
+  return code.split('-')[0];
+}
+
+export function languageName(code: string): string {
+  const base = baseLanguage(code);
+  const entry = LANGUAGES.find(([c]) => c === base);
+  return entry ? entry[2].charAt(0).toUpperCase() + entry[2].slice(1) : code;
+}
+
+/**
+ * Parses the request's language field; empty means 'auto'.
+ */
+export function parseRequestedLanguage(input: string | undefined): { language: RequestedLanguage } | { error: string } {
+  if (!input?.trim() || input.trim().toLowerCase() === 'auto') return { language: 'auto' };
+  const language = normalizeLanguage(input);
+  return language ? { language } : { error: `Unsupported language: ${input}` };
+}
+
+/**
+ * The language a processor should be told to use: its own configured language wins over the
+ * request's; undefined means auto-detect.
+ */
+export function resolveLanguage(configured: string | undefined, requested: RequestedLanguage | undefined): string | undefined {
+  return normalizeLanguage(configured) ?? (requested && requested !== 'auto' ? requested : undefined);
+}
+
+// ========= PROVIDER FORMATS =========
+
+/** Whisper, OpenAI-compatible servers and ElevenLabs: ISO 639-1 without region. */
+export function toIso6391(code: string): string {
+  return baseLanguage(code);
+}
+
+/** Deepgram: BCP-47, region kept when given ("en-US", "es"). */
+export function toBcp47(code: string): string {
+  return code;
+}
+
+/** AssemblyAI: lowercase with underscore for the English variants it lists ("en_us"), base code otherwise. */
+export function toAssemblyAI(code: string): string {
+  const [base, region] = code.toLowerCase().split('-');
+  return base === 'en' && region && ['us', 'uk', 'au'].includes(region) ? `en_${region}` : base;
+}
+
+// ========= REPORTING =========
+
+/**
+ * Compares the language each service reported with the requested language (or, for 'auto',
+ * the language most services detected). Services reporting another language are flagged.
+ */
+export function buildLanguageReport(
+  requested: RequestedLanguage,
+  results: TranscriptionResult[],
+  hintedByService: Record<string, string | undefined>
+): LanguageReport {
+  const byService: LanguageReport['byService'] = {};
+  const counts = new Map<string, number>();
+
+  for (const result of results) {
+    const reported = typeof result.metadata?.language === 'string' ? result.metadata.language : undefined;
+    const detected = normalizeLanguage(reported);
+    byService[result.serviceName] = {
+      reported,
+      detected: detected ? baseLanguage(detected) : undefined,
+      hinted: hintedByService[result.serviceName]
+    };
+    if (detected) counts.set(baseLanguage(detected), (counts.get(baseLanguage(detected)) ?? 0) + 1);
+  }
+
+  let expected: string | undefined = requested === 'auto' ? undefined : baseLanguage(requested);
+  if (!expected) {
+    // Majority of the detected languages; ties keep the first one seen
+    let best = 0;
+    for (const [language, count] of counts) {
+      if (count > best) {
+        best = count;
+        expected = language;
+      }
+    }
+  }
+
+  const mismatchedServices = Object.entries(byService)
+    .filter(([, entry]) => expected && entry.detected && entry.detected !== expected)
+    .map(([serviceName]) => serviceName);
+
+  return { requested, expected, byService, mismatchedServices, excludedServices: [] };
+}
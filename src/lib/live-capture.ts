@@ -0,0 +1,127 @@
+/**
+ * @file live-capture.ts
+ * @purpose Captures the microphone as 16-bit mono PCM chunks for live transcription (browser-only)
+ * @phazzie-status working
+ * @dependencies config.ts (LIVE_CONFIG), Web Audio API (AudioWorklet)
+ *
+ * An AudioWorklet copies the microphone frames to the main thread, where they are resampled from the
+ * AudioContext rate to the requested rate, converted to little-endian Int16 and batched into
+ * LIVE_CONFIG.CHUNK_MS chunks.
+ */
+
+import { LIVE_CONFIG } from './config';
+
+const WORKLET_NAME = 'live-pcm-tap';
+const WORKLET_SOURCE = `
+class LivePcmTap extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
+}
+registerProcessor('${WORKLET_NAME}', LivePcmTap);
+`;
+
+export interface LiveCaptureOptions {
+  sampleRate: number;
+  /** Receives each chunk of PCM; the buffer is not reused. */
+  onChunk(pcm: ArrayBuffer): void;
+  /** Microphone level from 0 to 1, once per chunk. */
+  onLevel?(level: number): void;
+}
+
+export interface LiveCapture {
+  /** Sends the last partial chunk and releases the microphone. */
+  stop(): Promise<void>;
+}
+
+/**
+ * Asks for the microphone and starts streaming chunks; rejects when access is denied.
+ */
+export async function startLiveCapture(options: LiveCaptureOptions): Promise<LiveCapture> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+  });
+  const context = new AudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } catch (error) {
+    stream.getTracks().forEach(track => track.stop());
+    await context.close();
+    throw error;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const tap = new AudioWorkletNode(context, WORKLET_NAME);
+  // Some browsers only run nodes that lead to the destination; keep it silent
+  const mute = context.createGain();
+  mute.gain.value = 0;
+  source.connect(tap).connect(mute).connect(context.destination);
+
+  const resample = createResampler(context.sampleRate, options.sampleRate);
+  const samplesPerChunk = Math.round(options.sampleRate * LIVE_CONFIG.CHUNK_MS / 1000);
+  let pending: number[] = [];
+  let sumSquares = 0;
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    const pcm = new Int16Array(pending.length);
+    pending.forEach((sample, i) => {
+      const clamped = Math.max(-1, Math.min(1, sample));
+      pcm[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    });
+    // Int16Array is platform-endian; every browser platform is little-endian, as the providers expect
+    options.onChunk(pcm.buffer);
+    options.onLevel?.(Math.min(1, Math.sqrt(sumSquares / pending.length) * 4));
+    pending = [];
+    sumSquares = 0;
+  };
+
+  tap.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    for (const sample of resample(event.data)) {
+      pending.push(sample);
+      sumSquares += sample * sample;
+      if (pending.length >= samplesPerChunk) flush();
+    }
+  };
+
+  return {
+    async stop() {
+      tap.port.onmessage = null;
+      flush();
+      source.disconnect();
+      tap.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      await context.close();
+    }
+  };
+}
+
+/**
+ * Linear-interpolation resampler that carries its position across buffers.
+ */
+function createResampler(inputRate: number, outputRate: number): (input: Float32Array) => number[] {
+  const step = inputRate / outputRate;
+  // Position of the next output sample, relative to the current buffer (-1 is the previous buffer's last sample)
+  let position = 0;
+  let previous = 0;
+  return input => {
+    const output: number[] = [];
+    if (input.length === 0) return output;
+    while (position <= input.length - 1) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const a = index < 0 ? previous : input[index];
+      const b = index + 1 < input.length ? input[index + 1] : a;
+      output.push(a + (b - a) * fraction);
+      position += step;
+    }
+    position -= input.length;
+    previous = input[input.length - 1];
+    return output;
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * @file live-session.ts
+ * @purpose One live microphone session: provider streams, segment relay and rolling consensus
+ * @phazzie-status working
+ * @dependencies processors.ts and live.ts contracts, consensus-pipeline.ts, cost.ts, config.ts (LIVE_CONFIG)
+ *
+ * Transport-agnostic: the /api/live socket handler feeds audio in and passes `send` to deliver
+ * server messages. Each provider's final segments are joined into one transcript per service, and
+ * the comparison engine runs over those at most once per LIVE_CONFIG.CONSENSUS_INTERVAL_MS.
+ */
+
+import type {
+  ComparisonEngine,
+  ConsensusMode,
+  ConsensusResult,
+  ProcessorEnv,
+  StreamingAudioProcessor,
+  StreamingSegment,
+  TranscriptionResult,
+  TranscriptionStream
+} from '../contracts/processors';
+import type { LiveServerMessage } from '../contracts/live';
+import { LIVE_CONFIG } from './config';
+import { finalizeConsensus, type ConsensusContext } from './consensus-pipeline';
+import type { SkippedService } from './cost';
+import type { RequestedLanguage } from './language';
+
+/**
+ * Whether this server accepts /api/live upgrades. Whatever hands the upgrades to the socket handler
+ * sets LIVE_SOCKET_HOSTED=true (the Vite plugin does in dev); serverless deployments leave it unset.
+ */
+export function isLiveSocketHosted(env: ProcessorEnv): boolean {
+  return env.LIVE_SOCKET_HOSTED === 'true';
+}
+
+export interface LiveSessionSettings {
+  consensusMode: ConsensusMode;
+  preferredServices: string[];
+  language: RequestedLanguage;
+  vocabulary: string[];
+  sampleRate: number;
+  /** Cost per minute of each service, in USD. */
+  costRates: Record<string, number>;
+  /** Services left out before the session started (unhealthy, not selected). */
+  skippedServices: SkippedService[];
+}
+
+export class LiveSession {
+  private readonly controller = new AbortController();
+  private readonly streams = new Map<string, TranscriptionStream>();
+  /** Final segments per service, keyed by segment id. */
+  private readonly finals = new Map<string, Map<string, StreamingSegment>>();
+  private readonly failedServices: SkippedService[] = [];
+  private readonly startedAt = Date.now();
+  private bytesReceived = 0;
+  private stopping = false;
+  private consensusTimer: ReturnType<typeof setTimeout> | undefined;
+  private lastConsensusAt = 0;
+
+  constructor(
+    private readonly processors: StreamingAudioProcessor[],
+    private readonly settings: LiveSessionSettings,
+    private readonly engine: ComparisonEngine,
+    private readonly send: (message: LiveServerMessage) => void
+  ) {}
+
+  /**
+   * Opens every provider stream. Returns false (after sending `done`) when none could be opened.
+   */
+  async start(): Promise<boolean> {
+    const { sampleRate, language, vocabulary } = this.settings;
+    const opened = await Promise.allSettled(this.processors.map(processor => processor.openStream({
+      sampleRate,
+      language: language === 'auto' ? undefined : language,
+      vocabulary,
+      signal: this.controller.signal,
+      onSegment: segment => this.handleSegment(segment),
+      onError: error => this.handleStreamError(processor.serviceName, error)
+    })));
+
+    opened.forEach((outcome, index) => {
+      const serviceName = this.processors[index].serviceName;
+      if (outcome.status === 'fulfilled') {
+        this.streams.set(serviceName, outcome.value);
+      } else {
+        const error = outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error';
+        this.failedServices.push({ serviceName, reason: `Could not open a stream: ${error}` });
+      }
+    });
+    // The client may have gone away while the providers were connecting
+    if (this.controller.signal.aborted) {
+      this.streams.forEach(stream => stream.close());
+      return false;
+    }
+
+    this.send({
+      type: 'ready',
+      services: [...this.streams.keys()],
+      failedServices: this.failedServices.map(f => ({ serviceName: f.serviceName, error: f.reason }))
+    });
+    if (this.streams.size === 0) {
+      this.send({ type: 'done', result: null });
+      return false;
+    }
+    return true;
+  }
+
+  sendAudio(pcm: Uint8Array): void {
+    if (this.stopping) return;
+    this.bytesReceived += pcm.byteLength;
+    for (const stream of this.streams.values()) stream.sendAudio(pcm);
+  }
+
+  /**
+   * Ends the audio, waits for the providers' last segments and sends the final consensus.
+   */
+  async stop(): Promise<void> {
+    if (this.stopping) return;
+    this.stopping = true;
+    await Promise.allSettled([...this.streams.values()].map(stream => stream.finish()));
+    clearTimeout(this.consensusTimer);
+    if (this.controller.signal.aborted) return;
+    this.send({ type: 'done', result: this.buildConsensus(true) });
+  }
+
+  /** Drops every provider connection without a final result (client went away). */
+  close(): void {
+    this.stopping = true;
+    clearTimeout(this.consensusTimer);
+    this.controller.abort();
+    for (const stream of this.streams.values()) stream.close();
+  }
+
+  private handleSegment(segment: StreamingSegment): void {
+    if (this.controller.signal.aborted) return;
+    this.send({ type: 'segment', segment });
+    if (!segment.isFinal || !segment.text) return;
+    let segments = this.finals.get(segment.serviceName);
+    if (!segments) {
+      segments = new Map();
+      this.finals.set(segment.serviceName, segments);
+    }
+    segments.set(segment.segmentId, segment);
+    if (!this.stopping) this.scheduleConsensus();
+  }
+
+  private handleStreamError(serviceName: string, error: Error): void {
+    if (!this.streams.delete(serviceName)) return;
+    // Its final segments so far stay in the consensus
+    this.failedServices.push({ serviceName, reason: `Stream failed: ${error.message}` });
+    this.send({ type: 'error', message: error.message, serviceName });
+  }
+
+  private scheduleConsensus(): void {
+    if (this.consensusTimer !== undefined) return;
+    const wait = Math.max(0, this.lastConsensusAt + LIVE_CONFIG.CONSENSUS_INTERVAL_MS - Date.now());
+    this.consensusTimer = setTimeout(() => {
+      this.consensusTimer = undefined;
+      this.lastConsensusAt = Date.now();
+      const result = this.buildConsensus(false);
+      if (result && !this.stopping) this.send({ type: 'consensus', result });
+    }, wait);
+  }
+
+  /**
+   * Consensus over each service's final segments so far; null before any final text arrived.
+   * The final one also carries the cost and per-service reasoning steps.
+   */
+  private buildConsensus(final: boolean): ConsensusResult | null {
+    const results = [...this.finals.entries()].map(([serviceName, segments]) => this.toResult(serviceName, [...segments.values()]));
+    if (results.length === 0) return null;
+    if (!final) {
+      try {
+        return this.engine.compareTranscriptions(results, {
+          mode: this.settings.consensusMode,
+          vocabulary: this.settings.vocabulary,
+          preferredServices: this.settings.preferredServices
+        });
+      } catch (error) {
+        // Skip this update; the next final segment schedules another
+        console.warn('Rolling live consensus failed.', error);
+        return null;
+      }
+    }
+
+    // 16-bit mono PCM: two bytes per sample
+    const seconds = this.bytesReceived / 2 / this.settings.sampleRate;
+    const context: ConsensusContext = {
+      consensusMode: this.settings.consensusMode,
+      preferredServices: this.settings.preferredServices,
+      language: this.settings.language,
+      // Streaming providers do not report a language per segment
+      excludeLanguageMismatches: false,
+      vocabulary: this.settings.vocabulary,
+      translate: false,
+      hintedByService: {},
+      detectedDuration: { seconds, source: 'pcm-stream' },
+      costRates: this.settings.costRates,
+      estimatedCostByService: {},
+      skippedServices: [...this.settings.skippedServices, ...this.failedServices],
+      serviceAttempts: []
+    };
+    return finalizeConsensus(this.engine, context, results);
+  }
+
+  private toResult(serviceName: string, segments: StreamingSegment[]): TranscriptionResult {
+    segments.sort((a, b) => a.startMs - b.startMs);
+    const confidences = segments.map(s => s.confidence).filter((c): c is number => c !== undefined);
+    return {
+      id: `live-${serviceName}-${this.startedAt}`,
+      serviceName,
+      text: segments.map(s => s.text).join(' '),
+      words: segments.flatMap(s => s.words),
+      confidence: confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length : undefined,
+      processingTimeMs: Date.now() - this.startedAt,
+      timestamp: new Date(),
+      metadata: { live: true, segmentCount: segments.length }
+    };
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * @file processor-registry.ts
+ * @purpose Central registry of AudioProcessor implementations
+ * @phazzie-status working
+ * @dependencies processors.ts contract
+ *
+ * Each implementation in `src/implementations/` registers itself with a factory, its environment
+ * schema and capability flags. Routes, the health endpoint and the UI enumerate processors from here,
+ * so adding a provider only means adding its implementation module to `src/implementations/index.ts`.
+ */
+
+import type {
+  BaseProcessorConfig,
+  ProcessorDescriptor,
+  ProcessorEnv,
+  ProcessorInstance,
+  ProcessorOptionField,
+  ProcessorRegistration
+} from '../contracts/processors';
+
+const registrations = new Map<string, ProcessorRegistration<any>>();
+
+/** The per-request language option shared by processors that accept a language hint. */
+export const LANGUAGE_OPTION: ProcessorOptionField = {
+  key: 'language',
+  label: 'Language',
+  type: 'string',
+  description: 'Language code, e.g. en or en-US',
+  pattern: '^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$'
+};
+
+/**
+ * Adds an implementation to the registry. Registering the same id twice is a programming error.
+ */
+export function registerProcessor<C extends BaseProcessorConfig>(registration: ProcessorRegistration<C>): void {
+  if (registrations.has(registration.id)) {
+    throw new Error(`Processor "${registration.id}" is already registered.`);
+  }
+  registrations.set(registration.id, registration);
+}
+
+/** All registrations in registration order. */
+export function getRegisteredProcessors(): ProcessorRegistration<any>[] {
+  return [...registrations.values()];
+}
+
+export function getProcessorRegistration(id: string): ProcessorRegistration<any> | undefined {
+  return registrations.get(id);
+}
+
+/**
+ * Default `configure`: one config when every required variable in the schema is present.
+ */
+export function configFromSchema(registration: ProcessorRegistration<any>, env: ProcessorEnv): BaseProcessorConfig[] {
+  const config: Record<string, string> = {};
+  for (const field of registration.configSchema) {
+    const value = env[field.envVar]?.trim();
+    if (value) {
+      config[field.key] = value;
+    } else if (field.required) {
+      return [];
+    }
+  }
+  return [config];
+}
+
+function configure(registration: ProcessorRegistration<any>, env: ProcessorEnv): BaseProcessorConfig[] {
+  return registration.configure ? registration.configure(env) : configFromSchema(registration, env);
+}
+
+/**
+ * Creates a processor for every configured registration (some registrations yield several instances).
+ */
+export function createConfiguredProcessors(env: ProcessorEnv): ProcessorInstance[] {
+  const instances: ProcessorInstance[] = [];
+  for (const registration of registrations.values()) {
+    for (const config of configure(registration, env)) {
+      instances.push({ registration, config, processor: registration.create(config) });
+    }
+  }
+  return instances;
+}
+
+/**
+ * Serializable descriptions of every registration for the health endpoint and the UI.
+ */
+export function describeProcessors(env: ProcessorEnv): ProcessorDescriptor[] {
+  return getRegisteredProcessors().map(registration => {
+    const serviceNames = configure(registration, env).map(config => registration.create(config).serviceName);
+    return {
+      id: registration.id,
+      displayName: registration.displayName,
+      configured: serviceNames.length > 0,
+      serviceNames,
+      capabilities: registration.capabilities,
+      options: registration.optionsSchema ?? [],
+      config: registration.configSchema.map(field => ({
+        envVar: field.envVar,
+        required: field.required,
+        description: field.description,
+        present: Boolean(env[field.envVar]?.trim())
+      }))
+    };
+  });
+}
+
+/**
+ * Checks client-supplied options against a registration's `optionsSchema`.
+ * Form values arrive as strings, so numbers and booleans are coerced; unknown keys are errors.
+ */
+export function validateProcessorOptions(
+  registration: ProcessorRegistration<any>,
+  serviceName: string,
+  raw: unknown
+): { options: Record<string, unknown>; errors: string[] } {
+  const options: Record<string, unknown> = {};
+  const errors: string[] = [];
+  if (raw === undefined || raw === null) return { options, errors };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { options, errors: [`Options for ${serviceName} must be an object.`] };
+  }
+
+  const fields = new Map((registration.optionsSchema ?? []).map(field => [field.key, field]));
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const field = fields.get(key);
+    if (!field) {
+      errors.push(`${serviceName} does not support the option "${key}".`);
+      continue;
+    }
+    // Empty values mean "use the default"
+    if (value === undefined || value === null || value === '') continue;
+    const result = coerceOption(field, value);
+    if (result.error) {
+      errors.push(`${serviceName} option "${key}": ${result.error}`);
+    } else {
+      options[key] = result.value;
+    }
+  }
+  return { options, errors };
+}
+
+function coerceOption(field: ProcessorOptionField, value: unknown): { value?: unknown; error?: string } {
+  switch (field.type) {
+    case 'boolean':
+      if (typeof value === 'boolean') return { value };
+      if (value === 'true' || value === 'false') return { value: value === 'true' };
+      return { error: 'expected true or false' };
+    case 'number': {
+      const n = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+      if (!Number.isFinite(n)) return { error: 'expected a number' };
+      if (field.integer && !Number.isInteger(n)) return { error: 'expected a whole number' };
+      if (field.min !== undefined && n < field.min) return { error: `must be at least ${field.min}` };
+      if (field.max !== undefined && n > field.max) return { error: `must be at most ${field.max}` };
+      return { value: n };
+    }
+    case 'enum':
+      if (typeof value === 'string' && field.values?.includes(value)) return { value };
+      return { error: `expected one of ${(field.values ?? []).join(', ')}` };
+    case 'string': {
+      if (typeof value !== 'string') return { error: 'expected text' };
+      const text = value.trim();
+      if (text.length > 200) return { error: 'is too long' };
+      if (field.pattern && !new RegExp(field.pattern).test(text)) return { error: `"${text}" is not a valid ${field.label.toLowerCase()}` };
+      return { value: text };
+    }
+  }
+}
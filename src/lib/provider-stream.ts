@@ -0,0 +1,80 @@
+/**
+ * @file provider-stream.ts
+ * @purpose WebSocket plumbing shared by StreamingAudioProcessor implementations
+ * @phazzie-status working
+ * @dependencies processors.ts contract, retry.ts (ProcessorError), config.ts (LIVE_CONFIG), ws (server-only)
+ *
+ * Opens the provider connection (surfacing HTTP handshake failures such as a rejected key as
+ * ProcessorErrors) and wraps it as a TranscriptionStream. Message parsing stays in each processor.
+ */
+
+import WebSocket from 'ws';
+import type { TranscriptionStream } from '../contracts/processors';
+import { LIVE_CONFIG } from './config';
+import { ProcessorError } from './retry';
+
+/**
+ * Connects to a provider's streaming endpoint; resolves once the handshake succeeded.
+ */
+export function openProviderSocket(label: string, url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProcessorError(`${label}: cancelled`, { aborted: true }));
+      return;
+    }
+    const socket = new WebSocket(url, { headers });
+    const onAbort = () => socket.terminate();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    socket.once('open', () => resolve(socket));
+    socket.once('unexpected-response', (_request, response) => {
+      socket.terminate();
+      reject(new ProcessorError(`${label} (${response.statusCode}): streaming connection refused`, { status: response.statusCode }));
+    });
+    // Kept for the socket's lifetime: an 'error' without a listener would crash the process
+    socket.on('error', error => {
+      reject(new ProcessorError(`${label}: ${error.message}`, { retryable: true }));
+    });
+    socket.once('close', () => signal?.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wraps an open provider socket. `finish` sends `finishMessage` (the provider's end-of-audio
+ * message) and waits for the provider to close, at most LIVE_CONFIG.FINISH_TIMEOUT_MS.
+ * Closes other than through `finish` or `close` are reported through `onError`.
+ */
+export function socketStream(socket: WebSocket, label: string, finishMessage: string, onError: (error: Error) => void): TranscriptionStream {
+  let ending = false;
+  const closed = new Promise<void>(resolve => socket.once('close', () => resolve()));
+
+  socket.on('error', error => {
+    if (!ending) onError(new ProcessorError(`${label}: ${error.message}`));
+  });
+  socket.once('close', (code, reason) => {
+    if (!ending) onError(new ProcessorError(`${label}: stream closed (${code}${reason.length ? ` ${reason.toString()}` : ''})`));
+  });
+
+  return {
+    sendAudio(pcm: Uint8Array) {
+      if (!ending && socket.readyState === WebSocket.OPEN) socket.send(pcm);
+    },
+    async finish() {
+      if (ending) return closed;
+      ending = true;
+      if (socket.readyState !== WebSocket.OPEN) return;
+      socket.send(finishMessage);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<void>(resolve => {
+        timer = setTimeout(resolve, LIVE_CONFIG.FINISH_TIMEOUT_MS);
+      });
+      await Promise.race([closed, timeout]);
+      clearTimeout(timer);
+      socket.terminate();
+    },
+    close() {
+      ending = true;
+      socket.terminate();
+    }
+  };
+}
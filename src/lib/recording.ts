@@ -0,0 +1,271 @@
+/**
+ * @file recording.ts
+ * @purpose Record/replay of provider HTTP exchanges for deterministic offline runs
+ * @phazzie-status working
+ * @dependencies processors.ts contract, Node fs/crypto (server-only)
+ *
+ * TRANSCRIBE_MODE selects how processors talk to providers:
+ * - 'live' (default): real requests.
+ * - 'record': real requests, and every response a processor receives is saved to
+ *   `<TRANSCRIBE_FIXTURES_DIR>/<audio sha256>/<service>.json`.
+ * - 'replay': no network. Processors are rebuilt from the fixtures recorded for the uploaded audio
+ *   and served the recorded responses in order, so the real parsing code in each implementation runs.
+ *
+ * Fixtures hold response bodies and the processor config minus its API key. Request bodies
+ * (the audio itself) and request headers (credentials) are never written.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  AudioProcessor,
+  BaseProcessorConfig,
+  HealthProbe,
+  ProcessingOptions,
+  ProcessorEnv,
+  ProcessorInstance
+} from '../contracts/processors';
+import type { TranscriptionResult } from '../contracts/transcription';
+
+export type TranscribeMode = 'live' | 'record' | 'replay';
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/recordings';
+
+/** Placeholder credential given to replayed processors so their "configured" checks pass. */
+const REPLAY_API_KEY = 'replay';
+
+/** One provider response, in the order the processor received it. */
+export interface RecordedExchange {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** Contents of one fixture file. */
+export interface ProcessorFixture {
+  audioSha256: string;
+  registrationId: string;
+  serviceName: string;
+  /** The processor config without its API key. */
+  config: BaseProcessorConfig;
+  recordedAt: string;
+  exchanges: RecordedExchange[];
+}
+
+export function getTranscribeMode(env: ProcessorEnv): TranscribeMode {
+  const mode = env.TRANSCRIBE_MODE?.trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+export function getFixturesDir(env: ProcessorEnv): string {
+  return path.resolve(env.TRANSCRIBE_FIXTURES_DIR?.trim() || DEFAULT_FIXTURES_DIR);
+}
+
+export async function hashAudio(file: File): Promise<string> {
+  return createHash('sha256').update(new Uint8Array(await file.arrayBuffer())).digest('hex');
+}
+
+/** File-system safe fixture name for a service, e.g. "Google Gemini" -> "google-gemini". */
+function fixtureName(serviceName: string): string {
+  return serviceName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'service';
+}
+
+/** Drops credentials some providers accept as query parameters. */
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const param of ['key', 'api_key', 'apiKey', 'token']) parsed.searchParams.delete(param);
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.toString();
+  return input.url;
+}
+
+// ========= RECORDING =========
+
+/**
+ * Wraps a processor so each call's provider responses are written to a fixture file.
+ * Every attempt overwrites the fixture, so after retries it holds the final attempt.
+ */
+class RecordingProcessor implements AudioProcessor {
+  readonly serviceName: string;
+
+  constructor(
+    private readonly inner: AudioProcessor,
+    private readonly registrationId: string,
+    private readonly config: BaseProcessorConfig,
+    private readonly fixturesDir: string
+  ) {
+    this.serviceName = inner.serviceName;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+
+  // Probes are not recorded
+  checkHealth(options?: ProcessingOptions): Promise<HealthProbe> {
+    return this.inner.checkHealth(options);
+  }
+
+  async processFile(file: File, options: ProcessingOptions = {}): Promise<TranscriptionResult> {
+    // A fixture holds one call per service and audio file, so translations are not recorded
+    if (options.task === 'translate') return this.inner.processFile(file, options);
+    const audioSha256 = await hashAudio(file);
+    const exchanges: RecordedExchange[] = [];
+    const baseFetch = options.fetch ?? fetch;
+
+    const recordingFetch: typeof fetch = async (input, init) => {
+      const response = await baseFetch(input, init);
+      const body = await response.text();
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        if (key !== 'set-cookie') headers[key] = value;
+      });
+      exchanges.push({
+        method: init?.method ?? 'GET',
+        url: redactUrl(requestUrl(input)),
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body
+      });
+      return new Response(body, { status: response.status, statusText: response.statusText, headers });
+    };
+
+    try {
+      return await this.inner.processFile(file, { ...options, fetch: recordingFetch });
+    } finally {
+      // Provider errors are recorded too, so replays reproduce failures; cancelled calls are not.
+      if (exchanges.length > 0 && !options.signal?.aborted) {
+        await this.writeFixture(audioSha256, exchanges);
+      }
+    }
+  }
+
+  private async writeFixture(audioSha256: string, exchanges: RecordedExchange[]): Promise<void> {
+    const { apiKey: _apiKey, ...config } = this.config;
+    const fixture: ProcessorFixture = {
+      audioSha256,
+      registrationId: this.registrationId,
+      serviceName: this.serviceName,
+      config,
+      recordedAt: new Date().toISOString(),
+      exchanges
+    };
+    try {
+      const dir = path.join(this.fixturesDir, audioSha256);
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, `${fixtureName(this.serviceName)}.json`), JSON.stringify(fixture, null, 2));
+    } catch (error) {
+      console.error(`Could not write ${this.serviceName} fixture: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  getCostPerMinute(): Promise<number> {
+    return this.inner.getCostPerMinute();
+  }
+
+  getSupportedFormats(): string[] {
+    return this.inner.getSupportedFormats();
+  }
+}
+
+export function withRecording(instance: ProcessorInstance, env: ProcessorEnv): ProcessorInstance {
+  return {
+    ...instance,
+    processor: new RecordingProcessor(instance.processor, instance.registration.id, instance.config, getFixturesDir(env))
+  };
+}
+
+// ========= REPLAY =========
+
+/**
+ * Serves a fixture's responses in order to the real processor implementation.
+ */
+class ReplayProcessor implements AudioProcessor {
+  readonly serviceName: string;
+
+  constructor(private readonly inner: AudioProcessor, private readonly fixture: ProcessorFixture) {
+    this.serviceName = inner.serviceName;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async checkHealth(): Promise<HealthProbe> {
+    return { status: 'up' };
+  }
+
+  async processFile(file: File, options: ProcessingOptions = {}): Promise<TranscriptionResult> {
+    if (options.task === 'translate') {
+      throw new Error(`No recorded translation for ${this.serviceName}; translations are not recorded.`);
+    }
+    const queue = [...this.fixture.exchanges];
+
+    const replayFetch: typeof fetch = async (input, init) => {
+      if (init?.signal?.aborted) {
+        const error = new Error('The operation was aborted.');
+        error.name = 'AbortError';
+        throw error;
+      }
+      const exchange = queue.shift();
+      const url = redactUrl(requestUrl(input));
+      if (!exchange) {
+        throw new Error(`No recorded response left for ${init?.method ?? 'GET'} ${url}`);
+      }
+      if (exchange.url !== url) {
+        throw new Error(`Recorded request was ${exchange.method} ${exchange.url}, but got ${init?.method ?? 'GET'} ${url}`);
+      }
+      return new Response(exchange.body, { status: exchange.status, statusText: exchange.statusText, headers: exchange.headers });
+    };
+
+    return this.inner.processFile(file, { ...options, fetch: replayFetch });
+  }
+
+  getCostPerMinute(): Promise<number> {
+    return this.inner.getCostPerMinute();
+  }
+
+  getSupportedFormats(): string[] {
+    return this.inner.getSupportedFormats();
+  }
+}
+
+/**
+ * Fixtures recorded for this audio, in file-name order; empty when there are none.
+ */
+export async function loadReplayFixtures(file: File, env: ProcessorEnv): Promise<ProcessorFixture[]> {
+  const audioSha256 = await hashAudio(file);
+  const dir = path.join(getFixturesDir(env), audioSha256);
+
+  let fileNames: string[];
+  try {
+    fileNames = (await readdir(dir)).filter(name => name.endsWith('.json')).sort();
+  } catch {
+    console.warn(`No recordings for audio ${audioSha256} in ${dir}`);
+    return [];
+  }
+
+  return Promise.all(fileNames.map(async fileName => JSON.parse(await readFile(path.join(dir, fileName), 'utf8')) as ProcessorFixture));
+}
+
+/** The config a replayed processor is created with: the recorded one plus a placeholder API key. */
+export function replayConfig(fixture: ProcessorFixture): BaseProcessorConfig {
+  return { ...fixture.config, apiKey: REPLAY_API_KEY };
+}
+
+export function withReplay(instance: ProcessorInstance, fixture: ProcessorFixture): ProcessorInstance {
+  return { ...instance, processor: new ReplayProcessor(instance.processor, fixture) };
+}
@@ -0,0 +1,350 @@
+/**
+ * @file reliability.ts
+ * @purpose Learns how reliable each service has been and turns that into consensus weights
+ * @phazzie-status working
+ * @dependencies processors.ts contract, evaluation.ts, language.ts, recording.ts, config.ts (RELIABILITY_CONFIG), Node fs (server-only)
+ *
+ * Every finished consensus records, per service, how closely its transcript agreed with the final
+ * text, its WER when a reference transcript was given, and its WER against transcripts users
+ * corrected (POST /api/corrections). The history is kept in one JSON file
+ * (`TRANSCRIBE_RELIABILITY_FILE`, `.data/reliability.json` by default), for all languages together
+ * and per language. A service's weight is its average accuracy relative to the other services being
+ * compared, pulled towards 1 while it has little history.
+ *
+ * A correction is scored against the service transcripts this server kept for the consensus (in a
+ * `corrections/` directory next to the history file), never against texts the client sends.
+ *
+ * Set RELIABILITY_WEIGHTING=false to compare every service equally and record nothing. Replay mode
+ * neither records nor weights, so replays and benchmarks stay deterministic.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ConsensusResult, ProcessorEnv, ReasoningStep } from '../contracts/processors';
+import { EVALUATION_CONFIG, RELIABILITY_CONFIG } from './config';
+import { evaluateTranscript } from './evaluation';
+import { languageName } from './language';
+import { getTranscribeMode } from './recording';
+
+const DEFAULT_RELIABILITY_FILE = '.data/reliability.json';
+/** History key covering every language. */
+const ALL_LANGUAGES = 'all';
+const CORRECTION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// ========= TYPES =========
+
+interface RunningMean {
+  count: number;
+  mean: number;
+}
+
+/** One service's outcomes in one language (or all of them); each mean is 1 - WER. */
+interface ServiceHistory {
+  /** Against the final consensus. */
+  agreement: RunningMean;
+  /** Against reference transcripts. */
+  reference: RunningMean;
+  /** Against user corrections. */
+  correction: RunningMean;
+}
+
+interface ReliabilityStore {
+  version: 1;
+  /** Service name -> language code (or 'all') -> history. */
+  services: Record<string, Record<string, ServiceHistory>>;
+}
+
+/** The weight of one service and what it is based on. */
+export interface ServiceReliability {
+  weight: number;
+  /** History used: the language's own, every language's, or none yet. */
+  source: 'language' | 'all' | 'none';
+  /** Outcomes behind the weight, reference and correction WERs counted REFERENCE_SAMPLE_WEIGHT times. */
+  samples: number;
+  agreement?: number;
+  referenceWer?: number;
+  correctionWer?: number;
+}
+
+/** Weights for the services of one consensus. */
+export interface ReliabilityWeights {
+  /** Language whose history was preferred, when known. */
+  language?: string;
+  byService: Record<string, ServiceReliability>;
+}
+
+/** A service's transcript that a user correction is scored against. */
+interface CorrectedService {
+  serviceName: string;
+  text: string;
+}
+
+/** What the server keeps of a finished consensus until it is corrected or expires. */
+interface CorrectableConsensus {
+  createdAt: string;
+  language?: string;
+  services: CorrectedService[];
+}
+
+export function isReliabilityEnabled(env: ProcessorEnv): boolean {
+  return env.RELIABILITY_WEIGHTING?.trim().toLowerCase() !== 'false' && getTranscribeMode(env) !== 'replay';
+}
+
+export function getReliabilityFile(env: ProcessorEnv): string {
+  return path.resolve(env.TRANSCRIBE_RELIABILITY_FILE?.trim() || DEFAULT_RELIABILITY_FILE);
+}
+
+// ========= PERSISTENCE =========
+
+function emptyHistory(): ServiceHistory {
+  return { agreement: { count: 0, mean: 0 }, reference: { count: 0, mean: 0 }, correction: { count: 0, mean: 0 } };
+}
+
+async function readStore(env: ProcessorEnv): Promise<ReliabilityStore> {
+  try {
+    const store = JSON.parse(await readFile(getReliabilityFile(env), 'utf8'));
+    if (store?.version === 1 && store.services && typeof store.services === 'object') return store;
+  } catch {
+    // No history yet (or an unreadable file, which the next update replaces)
+  }
+  return { version: 1, services: {} };
+}
+
+let storeLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Loads the store, applies `mutate` and saves it, one update at a time within this process.
+ */
+async function updateStore(env: ProcessorEnv, mutate: (store: ReliabilityStore) => void): Promise<void> {
+  const next = storeLock.catch(() => {}).then(async () => {
+    const store = await readStore(env);
+    mutate(store);
+    const target = getReliabilityFile(env);
+    await mkdir(path.dirname(target), { recursive: true });
+    // Write then rename, so readers never see a half-written file
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(store, null, 2));
+    await rename(temp, target);
+  });
+  storeLock = next;
+  await next;
+}
+
+type HistoryKind = keyof ServiceHistory;
+
+interface Sample {
+  serviceName: string;
+  kind: HistoryKind;
+  accuracy: number;
+}
+
+function addSamples(store: ReliabilityStore, samples: Sample[], language: string | undefined): void {
+  for (const { serviceName, kind, accuracy } of samples) {
+    const languages = store.services[serviceName] ?? (store.services[serviceName] = {});
+    for (const key of language ? [ALL_LANGUAGES, language] : [ALL_LANGUAGES]) {
+      const history = languages[key] ?? (languages[key] = emptyHistory());
+      const mean = history[kind];
+      mean.count = Math.min(mean.count + 1, RELIABILITY_CONFIG.HISTORY_WINDOW);
+      mean.mean += (accuracy - mean.mean) / mean.count;
+    }
+  }
+}
+
+/** 1 - WER, floored at 0; undefined when either text is too long to align cheaply. */
+function accuracyAgainst(reference: string, hypothesis: string): number | undefined {
+  if (reference.length > EVALUATION_CONFIG.MAX_REFERENCE_CHARS || hypothesis.length > EVALUATION_CONFIG.MAX_REFERENCE_CHARS) {
+    return undefined;
+  }
+  return Math.max(0, 1 - evaluateTranscript(reference, hypothesis).wer);
+}
+
+// ========= RECORDING =========
+
+/**
+ * Records how every service of a finished consensus did: agreement with the final text and, when
+ * the consensus was evaluated, accuracy against the reference. A transcript identical to the final
+ * text (the medoid winner) is not counted as agreeing, since it agrees by construction.
+ */
+export async function recordConsensusOutcome(
+  env: ProcessorEnv,
+  consensus: ConsensusResult,
+  language: string | undefined
+): Promise<void> {
+  if (!isReliabilityEnabled(env)) return;
+  const samples: Sample[] = [];
+  for (const result of consensus.individualResults) {
+    if (!result.text || result.text === consensus.finalText) continue;
+    const accuracy = accuracyAgainst(consensus.finalText, result.text);
+    if (accuracy !== undefined) samples.push({ serviceName: result.serviceName, kind: 'agreement', accuracy });
+  }
+  for (const [serviceName, evaluation] of Object.entries(consensus.evaluation?.byService ?? {})) {
+    samples.push({ serviceName, kind: 'reference', accuracy: Math.max(0, 1 - evaluation.wer) });
+  }
+  if (samples.length > 0) await updateStore(env, store => addSamples(store, samples, language));
+}
+
+// ========= CORRECTIONS =========
+
+function correctionsDir(env: ProcessorEnv): string {
+  return path.join(path.dirname(getReliabilityFile(env)), 'corrections');
+}
+
+function correctionExpired(createdAtMs: number): boolean {
+  return Date.now() - createdAtMs > RELIABILITY_CONFIG.CORRECTION_WINDOW_HOURS * 60 * 60 * 1000;
+}
+
+/** Deletes kept consensuses nobody corrected in time. */
+async function pruneCorrectable(dir: string): Promise<void> {
+  for (const name of await readdir(dir)) {
+    if (!name.endsWith('.json')) continue;
+    const file = path.join(dir, name);
+    const info = await stat(file).catch(() => null);
+    if (info && correctionExpired(info.mtimeMs)) await unlink(file).catch(() => {});
+  }
+}
+
+/**
+ * Keeps the service transcripts of a finished consensus so a user correction can be scored against
+ * them. Returns the id POST /api/corrections takes, or undefined when weighting is disabled.
+ */
+export async function keepForCorrection(
+  env: ProcessorEnv,
+  consensus: ConsensusResult,
+  language: string | undefined
+): Promise<string | undefined> {
+  if (!isReliabilityEnabled(env)) return undefined;
+  // Longer transcripts are never scored (see accuracyAgainst)
+  const services = consensus.individualResults
+    .filter(r => r.text && r.text.length <= EVALUATION_CONFIG.MAX_REFERENCE_CHARS)
+    .map(r => ({ serviceName: r.serviceName, text: r.text }));
+  if (services.length === 0) return undefined;
+
+  const dir = correctionsDir(env);
+  await mkdir(dir, { recursive: true });
+  await pruneCorrectable(dir);
+  const id = randomUUID();
+  const record: CorrectableConsensus = { createdAt: new Date().toISOString(), language, services };
+  const target = path.join(dir, `${id}.json`);
+  const temp = `${target}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(record));
+  await rename(temp, target);
+  return id;
+}
+
+/** Loads and deletes a kept consensus, so each one is corrected at most once. */
+async function takeCorrectable(env: ProcessorEnv, id: string): Promise<CorrectableConsensus | null> {
+  if (!CORRECTION_ID_PATTERN.test(id)) return null;
+  const file = path.join(correctionsDir(env), `${id}.json`);
+  let record: CorrectableConsensus;
+  try {
+    record = JSON.parse(await readFile(file, 'utf8'));
+    await unlink(file);
+  } catch {
+    // Unknown, or claimed by a concurrent correction
+    return null;
+  }
+  return correctionExpired(Date.parse(record.createdAt)) ? null : record;
+}
+
+/**
+ * Records a user's corrected transcript of the consensus kept as `correctionId`: each of its
+ * services is scored by its WER against the correction. Returns the weights the services have now,
+ * or null when there is no such consensus (unknown, expired or already corrected).
+ */
+export async function recordCorrection(
+  env: ProcessorEnv,
+  correctionId: string,
+  correctedText: string
+): Promise<ReliabilityWeights | null> {
+  if (!isReliabilityEnabled(env)) return null;
+  const kept = await takeCorrectable(env, correctionId);
+  if (!kept) return null;
+  const samples: Sample[] = [];
+  for (const { serviceName, text } of kept.services) {
+    const accuracy = accuracyAgainst(correctedText, text);
+    if (accuracy !== undefined) samples.push({ serviceName, kind: 'correction', accuracy });
+  }
+  if (samples.length > 0) await updateStore(env, store => addSamples(store, samples, kept.language));
+  return (await loadReliabilityWeights(env, kept.services.map(s => s.serviceName), kept.language)) ?? null;
+}
+
+// ========= WEIGHTS =========
+
+function sampleCount(history: ServiceHistory): number {
+  return history.agreement.count + RELIABILITY_CONFIG.REFERENCE_SAMPLE_WEIGHT * (history.reference.count + history.correction.count);
+}
+
+function quality(history: ServiceHistory): number {
+  const { agreement, reference, correction } = history;
+  const referenceWeight = RELIABILITY_CONFIG.REFERENCE_SAMPLE_WEIGHT;
+  const weighted = agreement.mean * agreement.count + referenceWeight * (reference.mean * reference.count + correction.mean * correction.count);
+  return weighted / sampleCount(history);
+}
+
+/**
+ * Weights for `serviceNames`, from `language`'s history where it has enough samples and from all
+ * languages otherwise. Undefined when weighting is disabled.
+ */
+export async function loadReliabilityWeights(
+  env: ProcessorEnv,
+  serviceNames: string[],
+  language: string | undefined
+): Promise<ReliabilityWeights | undefined> {
+  if (!isReliabilityEnabled(env)) return undefined;
+  const store = await readStore(env);
+
+  const chosen = serviceNames.map(serviceName => {
+    const languages = store.services[serviceName] ?? {};
+    const own = language ? languages[language] : undefined;
+    if (own && sampleCount(own) >= RELIABILITY_CONFIG.MIN_LANGUAGE_SAMPLES) return { serviceName, history: own, source: 'language' as const };
+    const all = languages[ALL_LANGUAGES];
+    if (all && sampleCount(all) > 0) return { serviceName, history: all, source: 'all' as const };
+    return { serviceName, history: undefined, source: 'none' as const };
+  });
+
+  // Weights are relative to the average service in this comparison
+  const known = chosen.filter(c => c.history !== undefined).map(c => quality(c.history!));
+  const average = known.length > 0 ? known.reduce((sum, q) => sum + q, 0) / known.length : 0;
+
+  const byService: Record<string, ServiceReliability> = {};
+  for (const { serviceName, history, source } of chosen) {
+    if (!history || average <= 0) {
+      byService[serviceName] = { weight: 1, source: 'none', samples: 0 };
+      continue;
+    }
+    const samples = sampleCount(history);
+    const shrunk = (quality(history) * samples + average * RELIABILITY_CONFIG.PRIOR_SAMPLES) / (samples + RELIABILITY_CONFIG.PRIOR_SAMPLES);
+    const weight = Math.min(RELIABILITY_CONFIG.MAX_WEIGHT, Math.max(RELIABILITY_CONFIG.MIN_WEIGHT, shrunk / average));
+    byService[serviceName] = {
+      weight: Math.round(weight * 1000) / 1000,
+      source,
+      samples,
+      ...(history.agreement.count > 0 ? { agreement: history.agreement.mean } : {}),
+      ...(history.reference.count > 0 ? { referenceWer: 1 - history.reference.mean } : {}),
+      ...(history.correction.count > 0 ? { correctionWer: 1 - history.correction.mean } : {})
+    };
+  }
+  return { language, byService };
+}
+
+/** The weight of each service, as ComparisonOptions.serviceWeights takes them. */
+export function serviceWeights(reliability: ReliabilityWeights): Record<string, number> {
+  return Object.fromEntries(Object.entries(reliability.byService).map(([name, r]) => [name, r.weight]));
+}
+
+/**
+ * Reasoning step listing the weights the consensus used.
+ */
+export function reliabilityStep(reliability: ReliabilityWeights, stepNumber: number): ReasoningStep {
+  const entries = Object.entries(reliability.byService);
+  const history = reliability.language ? ` (${languageName(reliability.language)} history where available)` : '';
+  const description = entries.every(([, r]) => r.source === 'none')
+    ? 'No reliability history yet, so every service counted equally.'
+    : `Weighted services by their past reliability${history}: ${entries.map(([name, r]) => `${name} ×${r.weight.toFixed(2)}`).join(', ')}.`;
+  return {
+    stepNumber,
+    description,
+    data: { language: reliability.language, byService: reliability.byService }
+  };
+}
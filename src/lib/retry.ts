@@ -0,0 +1,235 @@
+/**
+ * @file retry.ts
+ * @purpose Shared retry layer around AudioProcessor.processFile
+ * @phazzie-status working
+ * @dependencies processors.ts contract, config.ts (ERROR_CONFIG, PERFORMANCE_CONFIG)
+ *
+ * Provider errors are classified as retryable (429, 408, 5xx, network failures) or fatal
+ * (400, 401, 403, unsupported format, anything unrecognised). Retryable errors are retried with
+ * exponential backoff plus jitter, honouring `Retry-After`, until ERROR_CONFIG.MAX_RETRIES or the
+ * per-service time budget (PERFORMANCE_CONFIG.SERVICE_TIMEOUT_MS) runs out. Cancellation (timeout or
+ * caller abort) is propagated to the processor through an AbortSignal and is never retried.
+ */
+
+import type { AudioProcessor, ProcessingOptions } from '../contracts/processors';
+import type { TranscriptionResult } from '../contracts/transcription';
+import { ERROR_CONFIG, PERFORMANCE_CONFIG } from './config';
+
+// ========= ERROR CLASSIFICATION =========
+
+/**
+ * An error raised by a processor that keeps what the retry layer needs to classify it.
+ */
+export class ProcessorError extends Error {
+  /** HTTP status of the failed provider call, when there was one. */
+  readonly status?: number;
+  /** Wait requested by the provider through `Retry-After`, in milliseconds. */
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+  /** The call was cancelled through its AbortSignal rather than failing. */
+  readonly aborted: boolean;
+
+  constructor(message: string, details: { status?: number; retryAfterMs?: number; retryable?: boolean; aborted?: boolean } = {}) {
+    super(message);
+    this.name = 'ProcessorError';
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.aborted = details.aborted ?? false;
+    this.retryable = !this.aborted && (details.retryable ?? (details.status !== undefined && isRetryableStatus(details.status)));
+  }
+}
+
+/**
+ * Builds the error for a non-OK provider response. Reads the body, so call it at most once per response.
+ */
+export async function providerHttpError(label: string, response: Response): Promise<ProcessorError> {
+  const errorText = await response.text().catch(() => '');
+  return new ProcessorError(`${label} (${response.status}): ${errorText}`, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+  });
+}
+
+/**
+ * Re-throws an error under a processor-level message without losing its classification.
+ */
+export function wrapProcessorError(error: unknown, message: string): ProcessorError {
+  if (error instanceof ProcessorError) {
+    return new ProcessorError(message, { status: error.status, retryAfterMs: error.retryAfterMs, retryable: error.retryable, aborted: error.aborted });
+  }
+  return new ProcessorError(message, { retryable: isNetworkError(error), aborted: isAbortError(error) });
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** Rejections caused by an AbortSignal (timeout, client disconnect, user cancel) are never retried. */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: unknown } | null)?.name === 'AbortError';
+}
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+
+function hasNetworkErrorCode(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && NETWORK_ERROR_CODES.includes(code);
+}
+
+/**
+ * `fetch` rejects with a TypeError ("fetch failed", the socket error as its `cause`) when the
+ * connection itself fails. Other TypeErrors are bugs or malformed responses, so not retried.
+ */
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) {
+    return error.message === 'fetch failed' || hasNetworkErrorCode((error as { cause?: unknown }).cause);
+  }
+  return hasNetworkErrorCode(error);
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ProcessorError ? error.retryable : isNetworkError(error);
+}
+
+/**
+ * Parses `Retry-After` as either delay-seconds or an HTTP date.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// ========= RETRY LOOP =========
+
+/** One call to a processor, as recorded in result metadata and reasoning steps. */
+export interface AttemptRecord {
+  attempt: number;
+  outcome: 'success' | 'retryable-error' | 'fatal-error' | 'timeout' | 'aborted';
+  durationMs: number;
+  status?: number;
+  error?: string;
+  /** Wait before the next attempt, when one was scheduled. */
+  retryDelayMs?: number;
+}
+
+export interface RetryOutcome {
+  result: TranscriptionResult | null;
+  attempts: AttemptRecord[];
+}
+
+/**
+ * Exponential backoff with jitter: the nominal delay doubles per attempt and is randomised
+ * between half and all of it, so clients throttled together do not retry in lockstep.
+ */
+export function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  const nominal = ERROR_CONFIG.RETRY_DELAY * 2 ** (attempt - 1);
+  const jittered = nominal / 2 + Math.random() * (nominal / 2);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/**
+ * Waits `ms` milliseconds, rejecting with an AbortError as soon as `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Calls `processor.processFile` until it succeeds, fails fatally, or retries are exhausted.
+ * Never throws: failures come back as `result: null` with the attempts that led there.
+ * Successful results carry the attempts in `metadata.attempts`.
+ *
+ * The service's time budget and `options.signal` (e.g. the client disconnecting) both abort the
+ * processor's in-flight requests, not just our wait for them. Other options are passed through.
+ */
+export async function processWithRetry(processor: AudioProcessor, file: File, options: ProcessingOptions = {}): Promise<RetryOutcome> {
+  const { signal } = options;
+  const attempts: AttemptRecord[] = [];
+  const deadline = Date.now() + PERFORMANCE_CONFIG.SERVICE_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const budgetTimer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, PERFORMANCE_CONFIG.SERVICE_TIMEOUT_MS);
+  const onCallerAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  // Settles with an AbortError once the controller fires, for processors that ignore the signal.
+  const aborted = new Promise<never>((_, reject) => {
+    const rejectAborted = () => reject(abortError());
+    if (controller.signal.aborted) rejectAborted();
+    else controller.signal.addEventListener('abort', rejectAborted, { once: true });
+  });
+  aborted.catch(() => {});
+
+  try {
+    for (let attempt = 1; attempt <= ERROR_CONFIG.MAX_RETRIES + 1; attempt++) {
+      const startedAt = Date.now();
+      try {
+        const result = await Promise.race([processor.processFile(file, { ...options, signal: controller.signal }), aborted]);
+        attempts.push({ attempt, outcome: 'success', durationMs: Date.now() - startedAt });
+        return { result: { ...result, metadata: { ...result.metadata, attempts } }, attempts };
+      } catch (error) {
+        const errorMessage = controller.signal.aborted
+          ? (timedOut ? `Timed out after ${PERFORMANCE_CONFIG.SERVICE_TIMEOUT_MS}ms` : 'Cancelled by the caller')
+          : error instanceof Error ? error.message : 'Unknown error';
+        const record: AttemptRecord = {
+          attempt,
+          outcome: controller.signal.aborted
+            ? (timedOut ? 'timeout' : 'aborted')
+            : isRetryableError(error) ? 'retryable-error' : 'fatal-error',
+          durationMs: Date.now() - startedAt,
+          status: error instanceof ProcessorError ? error.status : undefined,
+          error: errorMessage
+        };
+        attempts.push(record);
+        console.error(`${processor.serviceName} attempt ${attempt} failed (${record.outcome}): ${errorMessage}`);
+
+        if (record.outcome !== 'retryable-error' || attempt > ERROR_CONFIG.MAX_RETRIES) break;
+
+        // A requested wait longer than we are willing to give, or past the budget, ends retrying.
+        const retryAfterMs = error instanceof ProcessorError ? error.retryAfterMs : undefined;
+        const delay = backoffDelay(attempt, retryAfterMs);
+        if (delay > ERROR_CONFIG.RETRY_TIMEOUT || Date.now() + delay >= deadline) break;
+
+        record.retryDelayMs = Math.round(delay);
+        try {
+          await sleep(delay, controller.signal);
+        } catch {
+          break;
+        }
+      }
+    }
+  } finally {
+    clearTimeout(budgetTimer);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+
+  return { result: null, attempts };
+}
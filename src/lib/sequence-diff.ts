@@ -0,0 +1,214 @@
+/**
+ * @file sequence-diff.ts
+ * @purpose Edit distance and alignment of long word sequences in near-linear time and memory
+ * @phazzie-status working
+ * @dependencies None
+ *
+ * Transcripts are compared as sequences of word ids (see `WordInterner`), never character by
+ * character. Two algorithms cover the two needs:
+ * - `editDistance`: Myers' bit-parallel Levenshtein distance, 32 words per machine word, in memory
+ *   linear in the sequence lengths. Two one-hour transcripts take milliseconds.
+ * - `alignSequences`: the edit script itself, from a DP restricted to a band of diagonals around
+ *   the main one. The band starts narrow and doubles until the path it finds costs exactly the
+ *   bit-parallel distance, so the result is optimal while similar transcripts stay cheap however
+ *   long they are.
+ *
+ * The first sequence may hold several ids per position (a column of a multiple alignment); a
+ * position matches a word when any of its ids does.
+ */
+
+/** Positions that each match any of their ids. */
+export type IdSetSequence = ArrayLike<ArrayLike<number>>;
+
+/** `alignSequences` steps: pattern[i] against text[j] (equal or substituted), pattern[i] alone, text[j] alone. */
+export const ALIGN_PAIR = 0;
+export const ALIGN_PATTERN_ONLY = 1;
+export const ALIGN_TEXT_ONLY = 2;
+export type AlignStep = typeof ALIGN_PAIR | typeof ALIGN_PATTERN_ONLY | typeof ALIGN_TEXT_ONLY;
+
+/** Half-width, in words, of the first band tried around the straight path between the two ends. */
+const INITIAL_BAND = 32;
+
+/**
+ * Gives every distinct word a small integer id, so sequences compare as numbers.
+ */
+export class WordInterner {
+  private readonly ids = new Map<string, number>();
+
+  get size(): number {
+    return this.ids.size;
+  }
+
+  id(word: string): number {
+    let id = this.ids.get(word);
+    if (id === undefined) {
+      id = this.ids.size;
+      this.ids.set(word, id);
+    }
+    return id;
+  }
+
+  sequence(words: string[]): Int32Array {
+    return Int32Array.from(words, word => this.id(word));
+  }
+}
+
+/**
+ * Levenshtein distance (substitution, insertion and deletion each cost 1) between two id
+ * sequences whose ids are below `alphabetSize`.
+ */
+export function editDistance(a: ArrayLike<number>, b: ArrayLike<number>, alphabetSize: number): number {
+  // The bit vectors run along the shorter sequence
+  if (a.length < b.length) [a, b] = [b, a];
+  return setEditDistance(Array.from(b, id => [id]), a, alphabetSize);
+}
+
+/**
+ * Levenshtein distance between `pattern` (sets of ids) and `text` (Myers 1999, blockwise as in
+ * Hyyrö 2003): O(pattern / 32 × text) time.
+ */
+export function setEditDistance(pattern: IdSetSequence, text: ArrayLike<number>, alphabetSize: number): number {
+  const m = pattern.length;
+  const n = text.length;
+  if (m === 0) return n;
+  if (n === 0) return m;
+
+  const peq = new Int32Array(alphabetSize);
+  // Horizontal deltas carried from one pattern block to the next, one bit per text position
+  const phc = new Int32Array(Math.ceil(n / 32)).fill(-1);
+  const mhc = new Int32Array(Math.ceil(n / 32));
+  const blocks = Math.ceil(m / 32);
+  let score = m;
+
+  for (let block = 0; block < blocks; block++) {
+    const start = block * 32;
+    const end = Math.min(start + 32, m);
+    const last = block === blocks - 1;
+    for (let k = start; k < end; k++) {
+      const ids = pattern[k];
+      for (let x = 0; x < ids.length; x++) peq[ids[x]] |= 1 << (k - start);
+    }
+    const top = end - 1 - start;
+    let pv = -1;
+    let mv = 0;
+    for (let word = 0; word < phc.length; word++) {
+      const carriedPh = phc[word];
+      const carriedMh = mhc[word];
+      let nextPh = 0;
+      let nextMh = 0;
+      const stop = Math.min(n, (word + 1) * 32);
+      for (let i = word * 32; i < stop; i++) {
+        const eq = peq[text[i]];
+        const pb = (carriedPh >>> i) & 1;
+        const mb = (carriedMh >>> i) & 1;
+        const xv = eq | mv;
+        const xh = ((((eq | mb) & pv) + pv) ^ pv) | eq | mb;
+        let ph = mv | ~(xh | pv);
+        let mh = pv & xh;
+        if (last) score += ((ph >>> top) & 1) - ((mh >>> top) & 1);
+        nextPh |= (ph >>> 31) << i;
+        nextMh |= (mh >>> 31) << i;
+        ph = (ph << 1) | pb;
+        mh = (mh << 1) | mb;
+        pv = mh | ~(xv | ph);
+        mv = ph & xv;
+      }
+      phc[word] = nextPh;
+      mhc[word] = nextMh;
+    }
+    for (let k = start; k < end; k++) {
+      const ids = pattern[k];
+      for (let x = 0; x < ids.length; x++) peq[ids[x]] = 0;
+    }
+  }
+  return score;
+}
+
+/**
+ * A minimum-cost alignment of `pattern` with `text`, as steps from start to end. On equal cost a
+ * pair is preferred over a gap, and a pattern-only step over a text-only one.
+ */
+export function alignSequences(pattern: IdSetSequence, text: ArrayLike<number>, alphabetSize: number): AlignStep[] {
+  const m = pattern.length;
+  const n = text.length;
+  if (m === 0 || n === 0) {
+    return [...new Array<AlignStep>(m).fill(ALIGN_PATTERN_ONLY), ...new Array<AlignStep>(n).fill(ALIGN_TEXT_ONLY)];
+  }
+  const distance = setEditDistance(pattern, text, alphabetSize);
+  // Once the band spans every row the cost is the distance, so this ends
+  for (let extra = INITIAL_BAND; ; extra *= 2) {
+    const steps = alignInBand(pattern, text, extra, distance);
+    if (steps) return steps;
+  }
+}
+
+/**
+ * The cheapest path through a band around the straight line from the first to the last cell, or
+ * null when it costs more than `distance`. Row i covers `extra` columns either side of that line
+ * between rows i and i + 1, which keeps consecutive rows connected however different the lengths are.
+ */
+function alignInBand(pattern: IdSetSequence, text: ArrayLike<number>, extra: number, distance: number): AlignStep[] | null {
+  const m = pattern.length;
+  const n = text.length;
+  const slope = n / m;
+  const first = new Int32Array(m + 1);
+  const offset = new Int32Array(m + 2);
+  let widest = 0;
+  for (let i = 0; i <= m; i++) {
+    first[i] = Math.max(0, Math.floor(i * slope) - extra);
+    const width = Math.min(n, Math.ceil((i + 1) * slope) + extra) - first[i] + 1;
+    offset[i + 1] = offset[i] + width;
+    widest = Math.max(widest, width);
+  }
+  const unreachable = m + n + 1;
+  // Costs of the previous and current row, from the row's first column
+  let previous = new Int32Array(widest);
+  let current = new Int32Array(widest);
+  // Step into every cell of the band, row by row
+  const steps = new Uint8Array(offset[m + 1]);
+
+  for (let j = 0; j < offset[1]; j++) {
+    previous[j] = j;
+    steps[j] = ALIGN_TEXT_ONLY;
+  }
+  for (let i = 1; i <= m; i++) {
+    const from = first[i];
+    const to = from + offset[i + 1] - offset[i] - 1;
+    const previousFrom = first[i - 1];
+    const previousTo = previousFrom + offset[i] - offset[i - 1] - 1;
+    const ids = pattern[i - 1];
+    const single = ids.length === 1 ? ids[0] : -1;
+    for (let j = from; j <= to; j++) {
+      // Pattern-only comes from (i - 1, j), pair from (i - 1, j - 1), text-only from (i, j - 1)
+      let best = j <= previousTo ? previous[j - previousFrom] + 1 : unreachable;
+      let step: AlignStep = ALIGN_PATTERN_ONLY;
+      if (j > 0) {
+        if (j - 1 >= previousFrom && j - 1 <= previousTo) {
+          const id = text[j - 1];
+          let same = single === id;
+          for (let x = 0; single < 0 && !same && x < ids.length; x++) same = ids[x] === id;
+          const pair = previous[j - 1 - previousFrom] + (same ? 0 : 1);
+          if (pair <= best) { best = pair; step = ALIGN_PAIR; }
+        }
+        const textOnly = j > from ? current[j - 1 - from] + 1 : unreachable;
+        if (textOnly < best) { best = textOnly; step = ALIGN_TEXT_ONLY; }
+      }
+      current[j - from] = best;
+      steps[offset[i] + j - from] = step;
+    }
+    [previous, current] = [current, previous];
+  }
+
+  if (previous[n - first[m]] !== distance) return null;
+  const path: AlignStep[] = [];
+  let i = m;
+  let j = n;
+  while (i > 0 || j > 0) {
+    const step = steps[offset[i] + j - first[i]] as AlignStep;
+    path.push(step);
+    if (step === ALIGN_PAIR) { i--; j--; }
+    else if (step === ALIGN_PATTERN_ONLY) i--;
+    else j--;
+  }
+  return path.reverse();
+}
@@ -0,0 +1,129 @@
+/**
+ * @file strategy-registry.ts
+ * @purpose Central registry of consensus strategies
+ * @phazzie-status working
+ * @dependencies processors.ts contract
+ *
+ * Each strategy registers a ComparisonEngine under its ConsensusMode (see
+ * src/implementations/comparison.ts). Routes compare through `createStrategyEngine()`, which runs
+ * whichever strategy a request asked for, and the UI lists the strategies from here.
+ */
+
+import {
+  CONSENSUS_MODES,
+  type ComparisonEngine,
+  type ConsensusMode,
+  type ConsensusStrategyDescriptor,
+  type ConsensusStrategyRegistration
+} from '../contracts/processors';
+
+const registrations = new Map<ConsensusMode, ConsensusStrategyRegistration>();
+
+/**
+ * Adds a strategy to the registry. Registering the same id twice is a programming error.
+ */
+export function registerConsensusStrategy(registration: ConsensusStrategyRegistration): void {
+  if (registrations.has(registration.id)) {
+    throw new Error(`Consensus strategy "${registration.id}" is already registered.`);
+  }
+  registrations.set(registration.id, registration);
+}
+
+/** All registrations in registration order. */
+export function getConsensusStrategies(): ConsensusStrategyRegistration[] {
+  return [...registrations.values()];
+}
+
+export function getConsensusStrategy(id: string): ConsensusStrategyRegistration | undefined {
+  return registrations.get(id as ConsensusMode);
+}
+
+/**
+ * Serializable descriptions of every strategy for the UI.
+ */
+export function describeConsensusStrategies(): ConsensusStrategyDescriptor[] {
+  return getConsensusStrategies().map(({ id, displayName, description }) => ({ id, displayName, description }));
+}
+
+/**
+ * An engine that runs the strategy named by `options.mode` ('medoid' when omitted), so one
+ * instance serves every request whichever strategy it picked.
+ */
+export function createStrategyEngine(): ComparisonEngine {
+  return {
+    compareTranscriptions(results, options = {}) {
+      const id = options.mode ?? 'medoid';
+      const strategy = registrations.get(id);
+      if (!strategy) {
+        throw new Error(`Consensus strategy "${id}" is not registered.`);
+      }
+      return strategy.engine.compareTranscriptions(results, options);
+    }
+  };
+}
+
+/** A request's strategy settings after validation. */
+export interface StrategySelection {
+  mode: ConsensusMode;
+  preferredServices: string[];
+  /** Further strategies to run over the same results for comparison; empty for none. */
+  compareStrategies: ConsensusMode[];
+}
+
+/**
+ * Validates a request's `consensusMode` (empty means 'medoid'), `preferredServices` (required by
+ * 'preferred-service-with-fallback') and `compareStrategies` ('all' or a list of strategies).
+ * Lists are arrays in JSON, and JSON arrays or comma separated text in forms.
+ */
+export function parseStrategySelection(
+  consensusMode: string,
+  preferredServices: unknown,
+  compareStrategies: unknown
+): StrategySelection | { error: string } {
+  const mode = (consensusMode || 'medoid') as ConsensusMode;
+  if (!CONSENSUS_MODES.includes(mode) || !registrations.has(mode)) {
+    return { error: `Unsupported consensus mode: ${consensusMode}. Available: ${[...registrations.keys()].join(', ')}.` };
+  }
+
+  const preferred = parseList(preferredServices);
+  if (preferred === null) {
+    return { error: 'preferredServices must be a list of service names.' };
+  }
+  if (mode === 'preferred-service-with-fallback' && preferred.length === 0) {
+    return { error: 'preferredServices is required for the preferred-service-with-fallback strategy.' };
+  }
+
+  // 'all' leaves out the preferred-service strategy when no service is preferred, as it would only repeat the medoid
+  const compared = compareStrategies === 'all'
+    ? [...registrations.keys()].filter(id => id !== 'preferred-service-with-fallback' || preferred.length > 0)
+    : parseList(compareStrategies);
+  if (compared === null) {
+    return { error: 'compareStrategies must be "all" or a list of consensus strategies.' };
+  }
+  const unknown = compared.filter(id => !registrations.has(id as ConsensusMode));
+  if (unknown.length > 0) {
+    return { error: `Unknown consensus strateg${unknown.length === 1 ? 'y' : 'ies'} to compare: ${unknown.join(', ')}.` };
+  }
+
+  return {
+    mode,
+    preferredServices: preferred,
+    compareStrategies: [...new Set(compared as ConsensusMode[])].filter(id => id !== mode)
+  };
+}
+
+/** A list given as an array, a JSON array or comma separated text; null when malformed. */
+function parseList(raw: unknown): string[] | null {
+  if (raw === undefined || raw === null || raw === '') return [];
+  let value = raw;
+  if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items) || !items.every(item => typeof item === 'string')) return null;
+  return items.map(item => item.trim()).filter(Boolean);
+}
@@ -0,0 +1,277 @@
+/**
+ * @file text-normalization.ts
+ * @purpose Rewrites transcript words into a canonical form so that scoring and alignment ignore style
+ * @phazzie-status working
+ * @dependencies processors.ts contract (NormalizationRule)
+ *
+ * Services transcribe the same speech in different styles: "twenty five percent" or "25%", "do not"
+ * or "don't", "Dr." or "doctor", with or without "um". The comparison engine compares the normalized
+ * words instead of the raw text; the consensus text itself is always built from the original words.
+ *
+ * Rules that merge several words ("twenty five percent", "do not") produce one normalized word that
+ * stands for the whole source range, so an aligned word can always be traced back to the text.
+ */
+
+import type { NormalizationRule } from '../contracts/processors';
+
+/** A normalized word and the source words (inclusive index range) it stands for. */
+export interface NormalizedWord {
+  norm: string;
+  first: number;
+  last: number;
+}
+
+/** How many words each rule rewrote (or, for disfluencies, removed). */
+export type NormalizationCounts = Record<NormalizationRule, number>;
+
+export function emptyNormalizationCounts(): NormalizationCounts {
+  return { casing: 0, punctuation: 0, contractions: 0, numbers: 0, abbreviations: 0, disfluencies: 0 };
+}
+
+// ========= WORD LISTS =========
+
+const FILLERS = new Set(['um', 'umm', 'uh', 'uhh', 'uhm', 'erm', 'er', 'ah', 'eh', 'hmm', 'hm', 'mm', 'mmm', 'mhm']);
+
+// Only unambiguous abbreviations: "St." (saint/street) and "No." (number/no) are left alone
+const ABBREVIATIONS = new Map<string, string>(Object.entries({
+  dr: 'doctor', mr: 'mister', mrs: 'missus', prof: 'professor', jr: 'junior', sr: 'senior',
+  vs: 'versus', etc: 'etcetera', approx: 'approximately', dept: 'department', govt: 'government',
+  ok: 'okay'
+}));
+
+// Expanded form -> contraction; both readings become the contraction
+const CONTRACTIONS = new Map<string, string>(Object.entries({
+  'do not': "don't", 'does not': "doesn't", 'did not': "didn't", 'is not': "isn't", 'are not': "aren't",
+  'was not': "wasn't", 'were not': "weren't", 'have not': "haven't", 'has not': "hasn't", 'had not': "hadn't",
+  'will not': "won't", 'would not': "wouldn't", 'should not': "shouldn't", 'could not': "couldn't",
+  'can not': "can't", 'cannot': "can't", 'must not': "mustn't",
+  'i am': "i'm", 'you are': "you're", 'we are': "we're", 'they are': "they're",
+  'it is': "it's", 'that is': "that's", 'there is': "there's", 'what is': "what's", 'he is': "he's", 'she is': "she's",
+  'i have': "i've", 'you have': "you've", 'we have': "we've", 'they have': "they've",
+  'i will': "i'll", 'you will': "you'll", 'we will': "we'll", 'they will': "they'll", 'he will': "he'll", 'she will': "she'll",
+  'i would': "i'd", 'you would': "you'd", 'we would': "we'd", 'they would': "they'd",
+  'let us': "let's"
+}));
+// First words of the two-word forms, so most words skip building a pair key
+const CONTRACTION_STARTS = new Set([...CONTRACTIONS.keys()].filter(k => k.includes(' ')).map(k => k.split(' ')[0]));
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9
+};
+const TEENS: Record<string, number> = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1000000, billion: 1000000000 };
+
+type NumberWordKind = 'unit' | 'teen' | 'ten' | 'scale';
+
+const NUMBER_WORDS = new Map<string, { kind: NumberWordKind; value: number }>();
+for (const [kind, table] of [['unit', UNITS], ['teen', TEENS], ['ten', TENS], ['scale', SCALES]] as const) {
+  for (const [word, value] of Object.entries(table)) NUMBER_WORDS.set(word, { kind, value });
+}
+
+// ========= HELPERS =========
+
+/** Trims punctuation at both ends, keeping inner apostrophes; case is kept. */
+function trimPunctuation(word: string): string {
+  return word
+    .replace(/’/g, "'")
+    .replace(/^[^\w'À-￿]+|[^\w'À-￿]+$/g, '')
+    .replace(/^'+|'+$/g, '');
+}
+
+/** Lowercased, punctuation-trimmed form every rule matches on. */
+function matchKey(word: string): string {
+  return trimPunctuation(word).toLowerCase();
+}
+
+/** A word ending a clause must not be merged with the next one. */
+function endsClause(word: string): boolean {
+  return /[.!?,;:]["')\]]*$/.test(word);
+}
+
+function numberWordKind(word: string): { kind: NumberWordKind; value: number } | null {
+  return NUMBER_WORDS.get(word) ?? null;
+}
+
+/**
+ * Reads a number starting at word `i`: digits ("1,000", "25%") or number words ("twenty-five",
+ * "one hundred and five"), followed by an optional "percent". Digit strings spoken one by one
+ * ("one two three") are separate numbers.
+ */
+function readNumber(words: string[], keys: string[], i: number): { value: string; end: number; rewritten: boolean } | null {
+  let value: string;
+  let end: number;
+  let rewritten = false;
+
+  const digits = words[i].toLowerCase().replace(/^["'(\[]+|[.,!?;:"')\]]+$/g, '');
+  if (/^\d{1,3}(,\d{3})+(\.\d+)?%?$|^\d+(\.\d+)?%?$/.test(digits)) {
+    value = digits.replace(/,/g, '');
+    rewritten = value !== digits;
+    end = i;
+  } else {
+    let total = 0;
+    let current = 0;
+    let last: NumberWordKind | 'and' | null = null;
+    let lastScale = Infinity;
+    end = -1;
+    for (let j = i; j < words.length; j++) {
+      const key = keys[j];
+      // "one hundred and five"
+      if (key === 'and' && last === 'scale' && j + 1 < words.length) {
+        const next = numberWordKind(keys[j + 1].split('-')[0]);
+        if (next && next.kind !== 'scale') {
+          last = 'and';
+          continue;
+        }
+      }
+      const parts = key.split('-').map(numberWordKind);
+      if (parts.length === 0 || parts.some(p => p === null)) break;
+      let accepted = true;
+      for (const part of parts as Array<{ kind: NumberWordKind; value: number }>) {
+        const allowed =
+          last === null ? part.kind !== 'scale'
+          : last === 'unit' || last === 'teen' ? part.kind === 'scale'
+          : last === 'ten' ? part.kind === 'scale' || (part.kind === 'unit' && part.value > 0)
+          : last === 'and' ? part.kind !== 'scale'
+          : part.kind !== 'scale' || part.value > lastScale;
+        if (!allowed) {
+          accepted = false;
+          break;
+        }
+        if (part.kind === 'scale') {
+          if (part.value === 100) {
+            current = (current || 1) * 100;
+          } else {
+            total += (current || 1) * part.value;
+            current = 0;
+          }
+          lastScale = part.value;
+        } else {
+          current += part.value;
+        }
+        last = part.kind;
+      }
+      if (!accepted) break;
+      end = j;
+      if (endsClause(words[j])) break;
+    }
+    if (end < 0) return null;
+    value = String(total + current);
+    rewritten = true;
+  }
+
+  // "25 percent", "twenty five per cent"
+  if (!value.endsWith('%') && !endsClause(words[end])) {
+    if (keys[end + 1] === 'percent') {
+      value += '%';
+      end += 1;
+      rewritten = true;
+    } else if (keys[end + 1] === 'per' && keys[end + 2] === 'cent' && !endsClause(words[end + 1])) {
+      value += '%';
+      end += 2;
+      rewritten = true;
+    }
+  }
+  return { value, end, rewritten };
+}
+
+// ========= PIPELINE =========
+
+/**
+ * Normalizes a transcript's words with the enabled rules. Words that normalize to nothing
+ * (standalone punctuation, removed fillers) have no entry; `counts` is incremented per rewrite.
+ */
+export function normalizeWords(
+  words: string[],
+  rules: readonly NormalizationRule[],
+  counts: NormalizationCounts = emptyNormalizationCounts()
+): NormalizedWord[] {
+  const enabled = new Set(rules);
+  const keys = words.map(matchKey);
+  const normalized: NormalizedWord[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    const key = keys[i];
+    if (!key) {
+      // Standalone punctuation ("-", "...") only counts when punctuation is compared
+      if (!enabled.has('punctuation') && words[i]) normalized.push({ norm: words[i], first: i, last: i });
+      i++;
+      continue;
+    }
+
+    if (enabled.has('disfluencies') && FILLERS.has(key)) {
+      counts.disfluencies++;
+      i++;
+      continue;
+    }
+
+    if (enabled.has('numbers')) {
+      const number = readNumber(words, keys, i);
+      if (number) {
+        if (number.rewritten) counts.numbers++;
+        normalized.push({ norm: number.value, first: i, last: number.end });
+        i = number.end + 1;
+        continue;
+      }
+    }
+
+    if (enabled.has('contractions')) {
+      const pair = i + 1 < words.length && CONTRACTION_STARTS.has(key) && !endsClause(words[i])
+        ? CONTRACTIONS.get(`${key} ${keys[i + 1]}`)
+        : undefined;
+      if (pair) {
+        counts.contractions++;
+        normalized.push({ norm: pair, first: i, last: i + 1 });
+        i += 2;
+        continue;
+      }
+      const single = CONTRACTIONS.get(key);
+      if (single) {
+        counts.contractions++;
+        normalized.push({ norm: single, first: i, last: i });
+        i++;
+        continue;
+      }
+    }
+
+    const expanded = enabled.has('abbreviations') ? ABBREVIATIONS.get(key) : undefined;
+    if (expanded) {
+      counts.abbreviations++;
+      normalized.push({ norm: expanded, first: i, last: i });
+      i++;
+      continue;
+    }
+
+    let norm = words[i];
+    if (enabled.has('punctuation')) {
+      const trimmed = trimPunctuation(norm);
+      if (trimmed !== norm) counts.punctuation++;
+      norm = trimmed;
+    }
+    if (enabled.has('casing')) {
+      const lower = norm.toLowerCase();
+      if (lower !== norm) counts.casing++;
+      norm = lower;
+    }
+    normalized.push({ norm, first: i, last: i });
+    i++;
+  }
+  return normalized;
+}
+
+/**
+ * The normalized words of `text` joined by single spaces, for similarity scoring.
+ */
+export function normalizeText(
+  text: string,
+  rules: readonly NormalizationRule[],
+  counts?: NormalizationCounts
+): string {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  return normalizeWords(words, rules, counts).map(w => w.norm).join(' ');
+}
@@ -0,0 +1,70 @@
+/**
+ * @file text-similarity.ts
+ * @purpose Pairwise similarity of normalized transcripts, computed once per pair
+ * @phazzie-status working
+ * @dependencies config.ts (CONSENSUS_CONFIG.SIMILARITY_WEIGHTS), sequence-diff.ts
+ *
+ * Similarity blends word-set overlap (Jaccard) with word-level edit distance. One instance serves
+ * one comparison: every transcript is split and interned once, and each pair's score is cached, so
+ * choosing the medoid and scoring the consensus confidence share the work.
+ */
+
+import { CONSENSUS_CONFIG } from './config';
+import { editDistance, WordInterner } from './sequence-diff';
+
+interface PreparedText {
+  index: number;
+  words: Int32Array;
+  distinct: Set<number>;
+}
+
+export class TranscriptSimilarity {
+  private readonly interner = new WordInterner();
+  private readonly texts = new Map<string, PreparedText>();
+  private readonly scores = new Map<number, number>();
+
+  /**
+   * `JACCARD_WEIGHT × Jaccard + LEVENSHTEIN_WEIGHT × (1 - word edit distance / longer length)`,
+   * 0 when either text is empty.
+   */
+  similarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    const first = this.prepare(a);
+    const second = this.prepare(b);
+    const [low, high] = first.index < second.index ? [first, second] : [second, first];
+    // Pair key; fine for the handful of transcripts one comparison has
+    const key = high.index * (high.index + 1) / 2 + low.index;
+    let score = this.scores.get(key);
+    if (score === undefined) {
+      const { JACCARD_WEIGHT, LEVENSHTEIN_WEIGHT } = CONSENSUS_CONFIG.SIMILARITY_WEIGHTS;
+      score = this.jaccard(low, high) * JACCARD_WEIGHT + this.editSimilarity(low, high) * LEVENSHTEIN_WEIGHT;
+      this.scores.set(key, score);
+    }
+    return score;
+  }
+
+  private prepare(text: string): PreparedText {
+    let prepared = this.texts.get(text);
+    if (!prepared) {
+      const words = this.interner.sequence(text.split(/\s+/).filter(word => word.length > 0));
+      prepared = { index: this.texts.size, words, distinct: new Set(words) };
+      this.texts.set(text, prepared);
+    }
+    return prepared;
+  }
+
+  private jaccard(a: PreparedText, b: PreparedText): number {
+    if (a.distinct.size === 0 && b.distinct.size === 0) return 1;
+    if (a.distinct.size === 0 || b.distinct.size === 0) return 0;
+    let intersection = 0;
+    for (const id of a.distinct) if (b.distinct.has(id)) intersection++;
+    return intersection / (a.distinct.size + b.distinct.size - intersection);
+  }
+
+  private editSimilarity(a: PreparedText, b: PreparedText): number {
+    const longest = Math.max(a.words.length, b.words.length);
+    if (longest === 0) return 1;
+    return 1 - editDistance(a.words, b.words, this.interner.size) / longest;
+  }
+}
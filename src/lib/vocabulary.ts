@@ -0,0 +1,90 @@
+/**
+ * @file vocabulary.ts
+ * @purpose Per-request custom vocabulary: parsing, provider-specific boosting, and consensus preference
+ * @phazzie-status working
+ * @dependencies word-alignment.ts (normalizeWord)
+ *
+ * Each provider biases recognition differently: Deepgram `keywords`, AssemblyAI `word_boost`,
+ * a `prompt` for Whisper-style APIs and a prompt section for Gemini. ElevenLabs scribe_v1 has no
+ * biasing parameter, so its output is only corrected through the consensus preference.
+ */
+
+import { normalizeWord } from './word-alignment';
+
+export const MAX_VOCABULARY_TERMS = 100;
+export const MAX_TERM_LENGTH = 50;
+
+/** Whisper only reads the last 224 tokens of its prompt; stay well inside that. */
+const MAX_PROMPT_CHARS = 600;
+
+/**
+ * Parses the request's vocabulary: an array, a JSON array string, or comma/newline separated text.
+ */
+export function parseVocabulary(raw: unknown): { terms: string[] } | { error: string } {
+  let value = raw;
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (!text) return { terms: [] };
+    if (text.startsWith('[')) {
+      try {
+        value = JSON.parse(text);
+      } catch {
+        return { error: 'vocabulary is not valid JSON.' };
+      }
+    } else {
+      value = text.split(/[\n,]/);
+    }
+  }
+  if (value === undefined || value === null) return { terms: [] };
+  if (!Array.isArray(value) || !value.every(t => typeof t === 'string')) {
+    return { error: 'vocabulary must be a list of terms.' };
+  }
+
+  const terms = [...new Set((value as string[]).map(t => t.trim().replace(/\s+/g, ' ')).filter(Boolean))];
+  if (terms.length > MAX_VOCABULARY_TERMS) {
+    return { error: `vocabulary has ${terms.length} terms; at most ${MAX_VOCABULARY_TERMS} are allowed.` };
+  }
+  const tooLong = terms.find(t => t.length > MAX_TERM_LENGTH);
+  if (tooLong) {
+    return { error: `Vocabulary term is longer than ${MAX_TERM_LENGTH} characters: ${tooLong.slice(0, MAX_TERM_LENGTH)}...` };
+  }
+  return { terms };
+}
+
+// ========= PROVIDER FORMATS =========
+
+/**
+ * Prompt text for Whisper and OpenAI-compatible servers. Whisper imitates the prompt's spelling,
+ * so a plain list of the terms is enough; terms that do not fit are left out.
+ */
+export function vocabularyPrompt(terms: string[]): string {
+  let prompt = '';
+  for (const term of terms) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > MAX_PROMPT_CHARS) break;
+    prompt = next;
+  }
+  return prompt ? `${prompt}.` : '';
+}
+
+/** Section appended to Gemini's transcription prompt. */
+export function vocabularyPromptSection(terms: string[]): string {
+  return `\n\nThe recording may contain these terms. When you hear one, spell it exactly as written here: ${terms.join(', ')}.`;
+}
+
+// ========= CONSENSUS =========
+
+/**
+ * Normalized word -> exact spelling for every word of every term ("Kubernetes Engine" contributes
+ * both words). Used by the consensus engine to prefer readings that match the vocabulary.
+ */
+export function vocabularySpellings(terms: string[]): Map<string, string> {
+  const spellings = new Map<string, string>();
+  for (const term of terms) {
+    for (const word of term.split(' ')) {
+      const norm = normalizeWord(word);
+      if (norm && !spellings.has(norm)) spellings.set(norm, word);
+    }
+  }
+  return spellings;
+}
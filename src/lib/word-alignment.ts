@@ -0,0 +1,396 @@
+/**
+ * @file word-alignment.ts
+ * @purpose Word-level multiple sequence alignment and ROVER-style voting across transcripts
+ * @phazzie-status working
+ * @dependencies transcription.ts contract, config.ts, text-normalization.ts
+ *
+ * The alignment is built progressively: the backbone transcript (normally the medoid chosen by the
+ * consensus engine) seeds the slots, then every other transcript is aligned against the growing set of
+ * slots with a minimum edit distance alignment (banded, see sequence-diff.ts). A token matches a slot
+ * when any token already in that slot has the same normalized form, so agreement between any two
+ * services is enough to keep words in one column.
+ */
+
+import type { Disagreement, TranscriptionResult } from '../contracts/transcription';
+import type { NormalizationRule } from '../contracts/processors';
+import { CONSENSUS_CONFIG } from './config';
+import { ALIGN_PAIR, ALIGN_PATTERN_ONLY, alignSequences, WordInterner } from './sequence-diff';
+import { normalizeWords } from './text-normalization';
+
+// ========= TYPES =========
+
+/** A transcript word prepared for alignment. */
+export interface AlignedToken {
+  /** The word exactly as it appears in the service's text. */
+  surface: string;
+  /** Normalized form used for matching (see text-normalization.ts). */
+  norm: string;
+  /** Character offsets of `surface` within the service's text. */
+  charStart: number;
+  charEnd: number;
+  /**
+   * `surface` together with the neighbouring words normalization dropped (fillers, standalone
+   * punctuation), as they appear in the text; the fused text is built from these.
+   */
+  spanSurface: string;
+  /** Character offset of `spanSurface` within the service's text. */
+  spanStart: number;
+  /** Word confidence (0..1) when the service reported one. */
+  confidence?: number;
+  /** Audio position of the word when the service reported word timings. */
+  startMs?: number;
+  endMs?: number;
+}
+
+/** One column of the alignment: the token each service contributed, or null for a gap. */
+export interface AlignmentSlot {
+  tokens: (AlignedToken | null)[];
+}
+
+/** The aligned transcripts. Row `i` of every slot belongs to `serviceNames[i]`. */
+export interface TranscriptAlignment {
+  serviceNames: string[];
+  /** Row index of the transcript the alignment was seeded with. */
+  backboneRow: number;
+  /** Result-level confidence per row, used when a word has no confidence of its own. */
+  rowConfidence: (number | undefined)[];
+  slots: AlignmentSlot[];
+}
+
+export type SlotDecision = 'majority' | 'confidence' | 'tie-break' | 'vocabulary';
+
+/** Outcome of voting on a single slot. */
+export interface SlotVote {
+  /** The winning token, or null when the gap won (the word is dropped). */
+  winner: AlignedToken | null;
+  decidedBy: SlotDecision;
+  /** Number of services that agree with the winning reading. */
+  support: number;
+}
+
+/** Where a slot's consensus word sits in the final text; null when the consensus has no word in the slot. */
+export type SlotOutput = { charStart: number; charEnd: number; norm: string } | null;
+
+/** The fused transcript produced by voting over every slot. */
+export interface WordVoteResult {
+  text: string;
+  votes: SlotVote[];
+  /** Per-slot position of the chosen word in `text`. */
+  outputs: SlotOutput[];
+  decisionCounts: Record<SlotDecision, number>;
+}
+
+// ========= TOKENIZATION =========
+
+/**
+ * Lowercases a word and trims punctuation at both ends, keeping inner apostrophes ("don't").
+ */
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/^[^\w'\u00C0-\uFFFF]+|[^\w'\u00C0-\uFFFF]+$/g, '').replace(/^'+|'+$/g, '');
+}
+
+/**
+ * Splits a result's text into alignment tokens, attaching confidence and timing from `words`
+ * where the word list can be matched to the text. `rules` decide the matching form; a token merged
+ * from several words ("twenty five") spans all of them in the text and in the audio. Words the rules
+ * drop ride along in the span of the token before them (or the first token, at the start).
+ */
+export function tokenizeResult(
+  result: TranscriptionResult,
+  rules: readonly NormalizationRule[] = CONSENSUS_CONFIG.NORMALIZATION_RULES
+): AlignedToken[] {
+  const text = result.text || '';
+  const sourceWords: Array<Omit<AlignedToken, 'norm' | 'spanSurface' | 'spanStart'> & { key: string }> = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    sourceWords.push({ surface: match[0], key: normalizeWord(match[0]), charStart: match.index, charEnd: match.index + match[0].length });
+  }
+
+  const words = Array.isArray(result.words) ? result.words : [];
+  if (words.length > 0) {
+    // Walk both lists in order; allow a small lookahead because services split some words differently.
+    const LOOKAHEAD = 3;
+    let w = 0;
+    for (const source of sourceWords) {
+      if (!source.key) continue;
+      for (let k = w; k < Math.min(words.length, w + LOOKAHEAD); k++) {
+        if (normalizeWord(words[k].token) === source.key) {
+          source.confidence = words[k].confidence;
+          source.startMs = words[k].startMs;
+          source.endMs = words[k].endMs;
+          w = k + 1;
+          break;
+        }
+      }
+    }
+  }
+
+  const normalized = normalizeWords(sourceWords.map(s => s.surface), rules);
+  return normalized.map(({ norm, first, last }, k) => {
+    const span = sourceWords.slice(first, last + 1);
+    const confidences = span.map(s => s.confidence).filter((c): c is number => typeof c === 'number');
+    const spanStart = sourceWords[k === 0 ? 0 : first].charStart;
+    const spanEnd = sourceWords[k + 1 < normalized.length ? normalized[k + 1].first - 1 : sourceWords.length - 1].charEnd;
+    return {
+      surface: text.slice(span[0].charStart, span[span.length - 1].charEnd),
+      norm,
+      charStart: span[0].charStart,
+      charEnd: span[span.length - 1].charEnd,
+      spanSurface: text.slice(spanStart, spanEnd),
+      spanStart,
+      confidence: confidences.length > 0 ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length : undefined,
+      startMs: span.find(s => typeof s.startMs === 'number')?.startMs,
+      endMs: [...span].reverse().find(s => typeof s.endMs === 'number')?.endMs
+    };
+  });
+}
+
+// ========= ALIGNMENT =========
+
+/**
+ * Aligns all transcripts into slots, seeding the alignment with `results[backboneIndex]`.
+ * Words are matched on their form after the `rules` normalizations.
+ */
+export function alignTranscripts(
+  results: TranscriptionResult[],
+  backboneIndex = 0,
+  rules: readonly NormalizationRule[] = CONSENSUS_CONFIG.NORMALIZATION_RULES
+): TranscriptAlignment {
+  const order = [backboneIndex, ...results.map((_, i) => i).filter(i => i !== backboneIndex)];
+  const rows = results.length;
+  const rowTokens = results.map(result => tokenizeResult(result, rules));
+
+  let slots: AlignmentSlot[] = rowTokens[backboneIndex].map(token => {
+    const slot: AlignmentSlot = { tokens: new Array(rows).fill(null) };
+    slot.tokens[backboneIndex] = token;
+    return slot;
+  });
+
+  const interner = new WordInterner();
+  for (const row of order.slice(1)) {
+    slots = alignRowIntoSlots(slots, rowTokens[row], row, rows, interner);
+  }
+
+  return {
+    serviceNames: results.map(r => r.serviceName),
+    backboneRow: backboneIndex,
+    rowConfidence: results.map(r => r.confidence),
+    slots
+  };
+}
+
+/**
+ * Aligns one new token sequence with the existing slots: a token joins the slot it is aligned
+ * with (matching or substituted), and gets a new slot where it is aligned with nothing.
+ */
+function alignRowIntoSlots(
+  slots: AlignmentSlot[],
+  tokens: AlignedToken[],
+  row: number,
+  rows: number,
+  interner: WordInterner
+): AlignmentSlot[] {
+  const slotIds = slots.map(slot => slot.tokens.filter((t): t is AlignedToken => t !== null).map(t => interner.id(t.norm)));
+  const tokenIds = tokens.map(token => interner.id(token.norm));
+
+  const merged: AlignmentSlot[] = [];
+  let i = 0;
+  let j = 0;
+  for (const step of alignSequences(slotIds, tokenIds, interner.size)) {
+    if (step === ALIGN_PAIR) {
+      slots[i].tokens[row] = tokens[j];
+      merged.push(slots[i]);
+      i++; j++;
+    } else if (step === ALIGN_PATTERN_ONLY) {
+      // The new row has a gap in this slot
+      merged.push(slots[i]);
+      i++;
+    } else {
+      const slot: AlignmentSlot = { tokens: new Array(rows).fill(null) };
+      slot.tokens[row] = tokens[j];
+      merged.push(slot);
+      j++;
+    }
+  }
+  return merged;
+}
+
+// ========= VOTING =========
+
+interface Candidate {
+  norm: string | null;
+  rows: number[];
+  confidenceSum: number;
+}
+
+/**
+ * Votes on every slot with the ROVER score
+ * `FREQUENCY_WEIGHT * (votes / services) + (1 - FREQUENCY_WEIGHT) * averageConfidence`.
+ * Words without a confidence fall back to their service's overall confidence, then to a default;
+ * gaps use a fixed null confidence.
+ *
+ * `vocabulary` maps normalized custom-vocabulary words to their spelling: where the winning word is
+ * not a vocabulary word but another service heard one in the same slot, the vocabulary reading wins.
+ *
+ * `rowWeights` (per service row, reliability) turn the vote share into a weighted share; on a tie
+ * the reading with more weight behind it wins before the backbone's.
+ */
+export function voteOnAlignment(
+  alignment: TranscriptAlignment,
+  vocabulary: Map<string, string> = new Map(),
+  rowWeights: number[] = alignment.serviceNames.map(() => 1)
+): WordVoteResult {
+  const { FREQUENCY_WEIGHT, NULL_CONFIDENCE, DEFAULT_WORD_CONFIDENCE } = CONSENSUS_CONFIG.WORD_VOTE;
+  const totalWeight = rowWeights.reduce((sum, w) => sum + w, 0);
+  const rowWeight = (rows: number[]) => rows.reduce((sum, row) => sum + rowWeights[row], 0);
+  const votes: SlotVote[] = [];
+  const decisionCounts: Record<SlotDecision, number> = { majority: 0, confidence: 0, 'tie-break': 0, vocabulary: 0 };
+
+  for (const slot of alignment.slots) {
+    const candidates = new Map<string, Candidate>();
+    slot.tokens.forEach((token, row) => {
+      const key = token ? token.norm : '';
+      const candidate = candidates.get(key) ?? { norm: token ? token.norm : null, rows: [], confidenceSum: 0 };
+      candidate.rows.push(row);
+      candidate.confidenceSum += token
+        ? (token.confidence ?? alignment.rowConfidence[row] ?? DEFAULT_WORD_CONFIDENCE)
+        : NULL_CONFIDENCE;
+      candidates.set(key, candidate);
+    });
+
+    const scored = [...candidates.values()].map(c => ({
+      candidate: c,
+      score: FREQUENCY_WEIGHT * (rowWeight(c.rows) / totalWeight) + (1 - FREQUENCY_WEIGHT) * (c.confidenceSum / c.rows.length)
+    }));
+    scored.sort((a, b) => b.score - a.score);
+
+    const topScore = scored[0].score;
+    const tied = scored.filter(s => Math.abs(s.score - topScore) < 1e-9);
+    let winner = tied[0].candidate;
+    let decidedBy: SlotDecision;
+    if (tied.length > 1) {
+      // Prefer the more reliable reading, then the backbone's, then the earliest service in row order.
+      const preferredRow = (c: Candidate) => (c.rows.includes(alignment.backboneRow) ? -1 : Math.min(...c.rows));
+      winner = tied.map(s => s.candidate).sort((a, b) => rowWeight(b.rows) - rowWeight(a.rows) || preferredRow(a) - preferredRow(b))[0];
+      decidedBy = 'tie-break';
+    } else {
+      const maxVotes = Math.max(...scored.map(s => s.candidate.rows.length));
+      const othersWithMaxVotes = scored.filter(s => s.candidate !== winner && s.candidate.rows.length === maxVotes).length;
+      decidedBy = winner.rows.length === maxVotes && othersWithMaxVotes === 0 ? 'majority' : 'confidence';
+    }
+    if (winner.norm !== null && !vocabulary.has(winner.norm)) {
+      const vocabularyReading = scored.find(s => s.candidate.norm !== null && vocabulary.has(s.candidate.norm));
+      if (vocabularyReading) {
+        winner = vocabularyReading.candidate;
+        decidedBy = 'vocabulary';
+      }
+    }
+    decisionCounts[decidedBy]++;
+
+    // Prefer a service that used the vocabulary's exact spelling, then the backbone's wording.
+    const spelling = winner.norm !== null ? vocabulary.get(winner.norm) : undefined;
+    const exactRow = spelling ? winner.rows.find(row => slot.tokens[row]?.surface.includes(spelling)) : undefined;
+    const surfaceRow = exactRow ?? (winner.rows.includes(alignment.backboneRow) ? alignment.backboneRow : winner.rows[0]);
+    votes.push({
+      winner: winner.norm === null ? null : slot.tokens[surfaceRow],
+      decidedBy,
+      support: winner.rows.length
+    });
+  }
+
+  const outputs: SlotOutput[] = [];
+  let text = '';
+  for (const vote of votes) {
+    if (!vote.winner) {
+      outputs.push(null);
+      continue;
+    }
+    if (text.length > 0) text += ' ';
+    const charStart = text.length + vote.winner.charStart - vote.winner.spanStart;
+    outputs.push({ charStart, charEnd: charStart + vote.winner.surface.length, norm: vote.winner.norm });
+    text += vote.winner.spanSurface;
+  }
+
+  return { text, votes, outputs, decisionCounts };
+}
+
+/**
+ * Per-slot output positions when the final text is the backbone transcript itself (medoid mode).
+ */
+export function backboneOutputs(alignment: TranscriptAlignment): SlotOutput[] {
+  return alignment.slots.map(slot => {
+    const token = slot.tokens[alignment.backboneRow];
+    return token ? { charStart: token.charStart, charEnd: token.charEnd, norm: token.norm } : null;
+  });
+}
+
+// ========= CONTESTED SPANS =========
+
+/**
+ * Groups consecutive slots where the services do not all agree into contested spans,
+ * reporting where each span sits in the final text and in the audio.
+ */
+export function findContestedSpans(alignment: TranscriptAlignment, outputs: SlotOutput[], finalText: string): Disagreement[] {
+  const rowCount = alignment.serviceNames.length;
+  const spans: Disagreement[] = [];
+
+  const isContested = (slot: AlignmentSlot) => new Set(slot.tokens.map(t => (t ? t.norm : ''))).size > 1;
+
+  let wordsBefore = 0;   // consensus words preceding the current slot
+  let lastCharEnd = 0;   // end of the last consensus word, used as the anchor for pure omissions
+  let slotIndex = 0;
+  while (slotIndex < alignment.slots.length) {
+    const slot = alignment.slots[slotIndex];
+    if (!isContested(slot)) {
+      const output = outputs[slotIndex];
+      if (output) { wordsBefore++; lastCharEnd = output.charEnd; }
+      slotIndex++;
+      continue;
+    }
+
+    const spanStart = slotIndex;
+    while (slotIndex < alignment.slots.length && isContested(alignment.slots[slotIndex])) slotIndex++;
+    const spanSlots = alignment.slots.slice(spanStart, slotIndex);
+    const spanOutputs = outputs.slice(spanStart, slotIndex);
+    const outputWords = spanOutputs.filter((o): o is NonNullable<SlotOutput> => o !== null);
+
+    const charStart = outputWords.length > 0 ? outputWords[0].charStart : lastCharEnd;
+    const charEnd = outputWords.length > 0 ? outputWords[outputWords.length - 1].charEnd : lastCharEnd;
+
+    const serviceTexts: Record<string, string> = {};
+    alignment.serviceNames.forEach((name, row) => {
+      serviceTexts[name] = spanSlots
+        .map(s => s.tokens[row]?.surface)
+        .filter((w): w is string => !!w)
+        .join(' ');
+    });
+    serviceTexts['consensus'] = finalText.slice(charStart, charEnd);
+
+    const severity = spanSlots.reduce((sum, s, k) => {
+      const consensusNorm = spanOutputs[k]?.norm ?? '';
+      const agreeing = s.tokens.filter(t => (t ? t.norm : '') === consensusNorm).length;
+      return sum + (1 - agreeing / rowCount);
+    }, 0) / spanSlots.length;
+
+    const times = spanSlots.flatMap(s => s.tokens).filter((t): t is AlignedToken => !!t && typeof t.startMs === 'number');
+    const wordIndex = wordsBefore;
+
+    spans.push({
+      position: wordIndex,
+      wordIndex,
+      wordCount: outputWords.length,
+      charStart,
+      charEnd,
+      startMs: times.length > 0 ? Math.min(...times.map(t => t.startMs!)) : undefined,
+      endMs: times.length > 0 ? Math.max(...times.map(t => t.endMs ?? t.startMs!)) : undefined,
+      serviceTexts,
+      severity
+    });
+
+    wordsBefore += outputWords.length;
+    if (outputWords.length > 0) lastCharEnd = charEnd;
+  }
+
+  return spans;
+}
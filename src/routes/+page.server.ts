@@ -1,8 +1,11 @@
 import { generateCSRFToken } from '$lib/csrf';
+import { isLiveSocketHosted } from '$lib/live-session';
+import { resolveAdjudicator } from '$lib/adjudication';
+import { createStreamingProcessors, describeConsensusStrategies, describeProcessors } from '../implementations';
 import type { PageServerLoad } from './$types';
 
 /**
- * Generate CSRF token for form protection
+ * Generate CSRF token for form protection and list the configured AI services and consensus strategies
  */
 export const load: PageServerLoad = async (event) => {
   const csrfToken = generateCSRFToken();
@@ -19,6 +22,15 @@ export const load: PageServerLoad = async (event) => {
   });
 
   return {
-    csrfToken
+    csrfToken,
+    // Configured services drive the "powered by" line and processing chips on the page
+    processors: describeProcessors(process.env).filter(p => p.configured),
+    strategies: describeConsensusStrategies(),
+    // Model used for LLM adjudication of contested spans; null when not configured
+    adjudicationModel: resolveAdjudicator(process.env)?.model ?? null,
+    // Live microphone mode needs a server that holds WebSocket connections
+    liveServices: isLiveSocketHosted(process.env)
+      ? createStreamingProcessors(process.env).processors.map(p => p.serviceName)
+      : []
   };
 };
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * @file api/assemblyai/webhook/+server.ts
+ * @purpose Receives AssemblyAI completion callbacks for long-running transcription jobs
+ * @phazzie-status working
+ * @dependencies jobs.ts, processor and strategy registries
+ *
+ * AssemblyAI calls `?job=<id>` with `{ transcript_id, status }` and the job's token in the
+ * x-job-token header (set when the job was submitted). The transcript is then fetched, and the
+ * job's consensus is built if it was the last one pending.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { completeFromWebhook, updateJob, WEBHOOK_AUTH_HEADER } from '$lib/jobs';
+import { createConfiguredProcessors, createStrategyEngine } from '../../../../implementations';
+
+const comparisonEngine = createStrategyEngine();
+
+export const POST: RequestHandler = async ({ request, url }) => {
+  const jobId = url.searchParams.get('job') ?? '';
+  const token = request.headers.get(WEBHOOK_AUTH_HEADER) ?? '';
+  const body = await request.json().catch(() => null);
+  const transcriptId = typeof body?.transcript_id === 'string' ? body.transcript_id : '';
+  if (!jobId || !token || !transcriptId) {
+    return json({ error: 'Missing job, token or transcript_id.' }, { status: 400 });
+  }
+
+  let accepted = false;
+  const job = await updateJob(process.env, jobId, async job => {
+    const processors = createConfiguredProcessors(process.env).map(instance => instance.processor);
+    accepted = await completeFromWebhook(process.env, job, token, transcriptId, processors, comparisonEngine);
+  });
+
+  // Same answer for unknown jobs and bad tokens, so job ids cannot be probed
+  if (!job || !accepted) {
+    return json({ error: 'Unknown job or transcript.' }, { status: 404 });
+  }
+  return json({ ok: true, status: job.status });
+};
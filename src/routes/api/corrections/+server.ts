@@ -0,0 +1,61 @@
+/**
+ * @file api/corrections/+server.ts
+ * @purpose Records a user's corrected transcript as evidence of how reliable each service was
+ * @phazzie-status working
+ * @dependencies reliability.ts, security.ts
+ *
+ * Body: `{ csrfToken, correctionId, correctedText }`, where `correctionId` is the consensus's
+ * `correctionId`. The services are scored against the transcripts the server kept for that consensus.
+ * Answers with the services' updated reliability weights.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { checkRateLimit, getClientIP, validateCsrfFromJson } from '$lib/security';
+import { EVALUATION_CONFIG } from '$lib/config';
+import { isReliabilityEnabled, recordCorrection } from '$lib/reliability';
+
+export const POST: RequestHandler = async ({ request, cookies }) => {
+  const clientIP = getClientIP(request);
+  const rl = checkRateLimit(clientIP);
+  if (!rl.allowed) {
+    return json(
+      { error: rl.error || 'Rate limit exceeded. Too many requests.' },
+      { status: rl.error ? 400 : 429, headers: rl.retryAfter ? { 'Retry-After': rl.retryAfter.toString() } : {} }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!validateCsrfFromJson(body, cookies.get('csrfToken'))) {
+    return json({ error: 'Request could not be processed. Please try again.' }, { status: 403 });
+  }
+  if (!isReliabilityEnabled(process.env)) {
+    return json({ error: 'Reliability weighting is disabled on this server.' }, { status: 409 });
+  }
+
+  const correctionId = typeof body.correctionId === 'string' ? body.correctionId : '';
+  if (!correctionId) {
+    return json({ error: 'correctionId is required.' }, { status: 400 });
+  }
+  const correctedText = typeof body.correctedText === 'string' ? body.correctedText.trim() : '';
+  if (!correctedText) {
+    return json({ error: 'correctedText is required.' }, { status: 400 });
+  }
+  if (correctedText.length > EVALUATION_CONFIG.MAX_REFERENCE_CHARS) {
+    return json({ error: `correctedText is ${correctedText.length} characters; at most ${EVALUATION_CONFIG.MAX_REFERENCE_CHARS} are allowed.` }, { status: 400 });
+  }
+
+  try {
+    const reliability = await recordCorrection(process.env, correctionId, correctedText);
+    if (!reliability) {
+      return json({ error: 'This transcript can no longer be corrected (unknown, expired or already corrected).' }, { status: 404 });
+    }
+    return json({ reliability });
+  } catch (error) {
+    console.error('Could not record the correction', error);
+    return json({ error: 'Could not record the correction.' }, { status: 500 });
+  }
+};
@@ -0,0 +1,46 @@
+/**
+ * @file api/health/+server.ts
+ * @purpose Reports which AI processors are registered and configured, and whether their providers are live
+ * @phazzie-status working
+ * @dependencies processor registry, health.ts
+ *
+ * Each configured service is probed with a cheap authenticated request (cached briefly; `?refresh=true`
+ * probes again, at most once per HEALTH_CONFIG.MIN_REFRESH_INTERVAL_MS). Only reports whether configuration is present - secret values are never returned.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { checkServices } from '$lib/health';
+import { checkRateLimit, getClientIP } from '$lib/security';
+import { createConfiguredProcessors, describeProcessors } from '../../../implementations';
+
+export const GET: RequestHandler = async ({ url, request }) => {
+  const rl = checkRateLimit(getClientIP(request));
+  if (!rl.allowed) {
+    return json(
+      { error: rl.error || 'Rate limit exceeded. Too many requests.' },
+      { status: rl.error ? 400 : 429, headers: rl.retryAfter ? { 'Retry-After': rl.retryAfter.toString() } : {} }
+    );
+  }
+
+  const refresh = url.searchParams.get('refresh') === 'true';
+  const health = await checkServices(createConfiguredProcessors(process.env), refresh);
+  const processors = describeProcessors(process.env).map(descriptor => ({
+    ...descriptor,
+    health: Object.fromEntries(descriptor.serviceNames.map(name => [name, health[name]]))
+  }));
+
+  const configuredCount = Object.keys(health).length;
+  const liveCount = Object.values(health).filter(h => h.status === 'up').length;
+  let status: 'ok' | 'degraded' | 'down' | 'unconfigured' = 'ok';
+  if (configuredCount === 0) status = 'unconfigured';
+  else if (liveCount === 0) status = 'down';
+  else if (liveCount < configuredCount) status = 'degraded';
+
+  return json({
+    status,
+    configuredCount,
+    liveCount,
+    processors
+  });
+};
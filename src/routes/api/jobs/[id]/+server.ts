@@ -0,0 +1,35 @@
+/**
+ * @file api/jobs/[id]/+server.ts
+ * @purpose Status and result of a long-running transcription job
+ * @phazzie-status working
+ * @dependencies jobs.ts, processor and strategy registries
+ *
+ * Polls the job's pending provider transcripts when they are due (with backoff), so jobs finish
+ * even when no webhook can reach this server. The job id is unguessable and acts as its access key.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { loadJob, pollPendingTranscripts, summarizeJob, updateJob } from '$lib/jobs';
+import { createConfiguredProcessors, createStrategyEngine } from '../../../../implementations';
+
+const comparisonEngine = createStrategyEngine();
+
+export const GET: RequestHandler = async ({ params }) => {
+  let job = await loadJob(process.env, params.id);
+  if (!job) {
+    return json({ error: 'Job not found.' }, { status: 404 });
+  }
+
+  const now = Date.now();
+  const due = job.pending.some(p => Date.parse(p.nextPollAt) <= now)
+    || (job.pending.length === 0 && now > Date.parse(job.deadline));
+  if (job.status === 'pending' && due) {
+    job = await updateJob(process.env, params.id, async pendingJob => {
+      const processors = createConfiguredProcessors(process.env).map(instance => instance.processor);
+      await pollPendingTranscripts(process.env, pendingJob, processors, comparisonEngine);
+    }) ?? job;
+  }
+
+  return json(summarizeJob(job));
+};
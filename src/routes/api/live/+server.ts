@@ -0,0 +1,25 @@
+/**
+ * @file api/live/+server.ts
+ * @purpose Plain HTTP requests to the live transcription WebSocket endpoint
+ * @phazzie-status working
+ * @dependencies live-session.ts, processor registry
+ *
+ * WebSocket upgrades to this path never reach SvelteKit; socket.ts handles them. A plain GET
+ * reports whether live transcription is available here and which services would stream.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isLiveSocketHosted } from '$lib/live-session';
+import { createStreamingProcessors } from '../../../implementations';
+
+export const GET: RequestHandler = async () => {
+  const hosted = isLiveSocketHosted(process.env);
+  return json({
+    error: hosted
+      ? 'Connect with a WebSocket to transcribe live audio.'
+      : 'This deployment cannot hold WebSocket connections; live transcription is unavailable.',
+    hosted,
+    services: createStreamingProcessors(process.env).processors.map(p => p.serviceName)
+  }, { status: 426, headers: { 'Upgrade': 'websocket' } });
+};
@@ -0,0 +1,194 @@
+/**
+ * @file api/live/socket.ts
+ * @purpose WebSocket upgrade handler for live microphone transcription (see contracts/live.ts)
+ * @phazzie-status working
+ * @dependencies live.ts contract, live-session.ts, security.ts, health.ts, processor and strategy registries, ws (server-only)
+ *
+ * SvelteKit endpoints cannot accept WebSocket upgrades, so the HTTP server hands `/api/live`
+ * upgrades to `handleLiveUpgrade` (wired in vite.config.ts for `vite dev` / `vite preview`, or by a
+ * custom Node server). Serverless deployments such as Vercel cannot hold the socket open; there
+ * GET /api/live answers 426 and the UI hides live mode.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { LIVE_CONFIG } from '$lib/config';
+import { checkRateLimit, validateCsrfFromJson } from '$lib/security';
+import { parseRequestedLanguage } from '$lib/language';
+import { parseVocabulary } from '$lib/vocabulary';
+import { knownUnhealthy } from '$lib/health';
+import { getCostRates, type SkippedService } from '$lib/cost';
+import { LiveSession } from '$lib/live-session';
+import type { StreamingAudioProcessor } from '../../../contracts/processors';
+import type { LiveServerMessage, LiveStartMessage } from '../../../contracts/live';
+import { createStrategyEngine, createStreamingProcessors, parseStrategySelection } from '../../../implementations';
+
+const comparisonEngine = createStrategyEngine();
+const server = new WebSocketServer({ noServer: true, maxPayload: LIVE_CONFIG.MAX_MESSAGE_BYTES });
+
+/**
+ * Accepts a same-origin upgrade request for /api/live; anything else is refused.
+ */
+export function handleLiveUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+  // Browsers always send Origin on WebSocket handshakes; cookies alone must not open a session
+  const origin = request.headers.origin;
+  let sameOrigin = false;
+  try {
+    sameOrigin = !!origin && new URL(origin).host === request.headers.host;
+  } catch {
+    sameOrigin = false;
+  }
+  if (!sameOrigin) {
+    refuse(socket, '403 Forbidden');
+    return;
+  }
+
+  const forwarded = request.headers['x-forwarded-for'];
+  const clientIP = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() || request.socket.remoteAddress || null;
+  if (!checkRateLimit(clientIP).allowed) {
+    refuse(socket, '429 Too Many Requests');
+    return;
+  }
+
+  server.handleUpgrade(request, socket, head, ws => runSession(ws, readCookie(request, 'csrfToken')));
+}
+
+function refuse(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function readCookie(request: IncomingMessage, name: string): string | undefined {
+  for (const part of (request.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+function runSession(ws: WebSocket, csrfCookie: string | undefined): void {
+  let session: LiveSession | null = null;
+  let starting = false;
+
+  const send = (message: LiveServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+  const fail = (message: string) => {
+    send({ type: 'error', message });
+    ws.close(1008, 'Invalid request');
+  };
+
+  ws.on('message', async (data, isBinary) => {
+    if (isBinary) {
+      // Audio sent before `ready` is dropped
+      session?.sendAudio(toBytes(data));
+      return;
+    }
+
+    let message: { type?: unknown };
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      fail('Messages must be JSON or binary audio.');
+      return;
+    }
+
+    if (message.type === 'start') {
+      if (session || starting) {
+        fail('The session has already started.');
+        return;
+      }
+      starting = true;
+      const prepared = await prepareSession(message as LiveStartMessage, csrfCookie, send);
+      if ('error' in prepared) {
+        fail(prepared.error);
+        return;
+      }
+      session = prepared.session;
+      if (ws.readyState !== WebSocket.OPEN) {
+        session.close();
+        return;
+      }
+      if (!(await session.start())) ws.close(1000);
+    } else if (message.type === 'stop') {
+      if (!session) {
+        fail('No session to stop.');
+        return;
+      }
+      await session.stop();
+      ws.close(1000);
+    } else {
+      fail(`Unknown message type: ${String(message.type)}`);
+    }
+  });
+
+  ws.on('close', () => session?.close());
+  ws.on('error', error => console.warn('Live transcription socket error:', error.message));
+}
+
+/**
+ * Validates a `start` message the way /api/transcribe validates its fields and picks the services.
+ */
+async function prepareSession(
+  start: LiveStartMessage,
+  csrfCookie: string | undefined,
+  send: (message: LiveServerMessage) => void
+): Promise<{ session: LiveSession } | { error: string }> {
+  if (!validateCsrfFromJson(start, csrfCookie)) {
+    return { error: 'Request could not be processed. Please reload the page and try again.' };
+  }
+
+  const sampleRate = Number(start.sampleRate);
+  if (!Number.isInteger(sampleRate) || sampleRate < 8000 || sampleRate > 48000) {
+    return { error: `Unsupported sample rate: ${start.sampleRate}` };
+  }
+  // Strategies are not compared live: the rolling consensus would run each of them on every update
+  const strategy = parseStrategySelection(typeof start.consensusMode === 'string' ? start.consensusMode : '', start.preferredServices, undefined);
+  if ('error' in strategy) return strategy;
+  const requestedLanguage = parseRequestedLanguage(typeof start.language === 'string' ? start.language : undefined);
+  if ('error' in requestedLanguage) return requestedLanguage;
+  const parsedVocabulary = parseVocabulary(start.vocabulary);
+  if ('error' in parsedVocabulary) return parsedVocabulary;
+
+  const services = start.services;
+  if (services !== undefined && (!Array.isArray(services) || !services.every(s => typeof s === 'string'))) {
+    return { error: 'services must be an array of service names.' };
+  }
+  const { processors: available, errors } = createStreamingProcessors(process.env, services);
+  if (errors.length > 0) return { error: errors.join(' ') };
+
+  // Same rule as /api/transcribe: leave out services the last health probe found down
+  const skippedServices: SkippedService[] = [];
+  const processors: StreamingAudioProcessor[] = [];
+  for (const processor of available) {
+    const health = await knownUnhealthy(process.env, processor.serviceName);
+    if (health) {
+      skippedServices.push({
+        serviceName: processor.serviceName,
+        reason: `${health.status === 'auth-failed' ? 'Credentials rejected' : 'Service down'} at the last health check (${health.checkedAt}): ${health.error ?? 'unknown error'}`
+      });
+    } else {
+      processors.push(processor);
+    }
+  }
+  if (processors.length === 0) {
+    return { error: 'No streaming-capable AI service is available for live transcription.' };
+  }
+
+  const session = new LiveSession(processors, {
+    consensusMode: strategy.mode,
+    preferredServices: strategy.preferredServices,
+    language: requestedLanguage.language,
+    vocabulary: parsedVocabulary.terms,
+    sampleRate,
+    costRates: await getCostRates(processors),
+    skippedServices
+  }, comparisonEngine, send);
+  return { session };
+}
+
+function toBytes(data: WebSocket.RawData): Uint8Array {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -1,21 +1,37 @@
 import { json, type RequestHandler } from '@sveltejs/kit';
-import type { TranscriptionResult } from '../../../contracts/transcription';
-import { ConsensusComparisonEngine } from '../../../implementations/comparison';
+import { validateTranscriptionWord, type TranscriptionResult, type TranscriptionWord } from '../../../contracts/transcription';
+import { createStrategyEngine, parseStrategySelection } from '../../../implementations';
 import { checkRateLimit, getClientIP, validateCsrfFromJson } from '$lib/security';
+import { roundUsd } from '$lib/cost';
+import { parseVocabulary } from '$lib/vocabulary';
+import { evaluateAgainstReference, evaluationStep, parseReference } from '$lib/evaluation';
+import { compareStrategies, strategiesStep } from '$lib/consensus-pipeline';
+import { adjudicateContestedSpans, adjudicationStep, resolveAdjudicator } from '$lib/adjudication';
 
 /*
   Merge per-chunk per-service transcripts into a final consensus-like result.
   Input shape:
   {
-    chunkTexts: Array<{ index: number; textsByService: Record<string,string> }>
+    chunkTexts: Array<{ index: number; textsByService: Record<string,string>;
+                        wordsByService?: Record<string,TranscriptionWord[]>; startMs?: number;
+                        costByService?: Record<string,number>; audioDurationSeconds?: number }>,
+    consensusMode?: ConsensusMode,  // see /api/transcribe, as are preferredServices and compareStrategies
+    preferredServices?: string[],
+    compareStrategies?: 'all' | ConsensusMode[],
+    vocabulary?: string[] | string,  // same custom vocabulary as the chunk requests
+    reference?: string,              // reference transcript of the whole file, scored after the merge
+    adjudicate?: boolean             // LLM adjudication of short contested spans, as in /api/transcribe
   }
 
   Strategy:
   - For each service, concatenate its chunk texts in order (with spaces).
+  - Shift each chunk's word timings by the chunk's startMs into file time; words the text overlap
+    drops are dropped too. A service keeps word timings only if every chunk it transcribed has them.
   - Build synthetic TranscriptionResult[] with one result per service.
 
   - Run the existing comparison engine to produce a ConsensusResult.
-  Caveat: token-level confidences won’t exist here; this is intended for large-file assembly.
+  - Sum the per-chunk costs and durations (from each chunk's /api/transcribe stats) into the stats.
+  Caveat: service-level confidences won’t exist here; this is intended for large-file assembly.
 */
 
 
@@ -41,12 +57,40 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
     if (!validateCsrfFromJson(body, csrfCookie)) {
       return json({ error: 'Request could not be processed. Please try again.' }, { status: 403 });
     }
-    const chunkTexts: Array<{ index: number; textsByService: Record<string, string> }>
-      = Array.isArray(body?.chunkTexts) ? body.chunkTexts : [];
+    const chunkTexts: Array<{
+      index: number;
+      textsByService: Record<string, string>;
+      wordsByService?: Record<string, unknown>;
+      startMs?: number;
+      costByService?: Record<string, number>;
+      audioDurationSeconds?: number;
+    }> = Array.isArray(body?.chunkTexts) ? body.chunkTexts : [];
     if (chunkTexts.length === 0) {
       return json({ error: 'No chunk texts provided' }, { status: 400 });
     }
 
+    const strategy = parseStrategySelection(
+      typeof body.consensusMode === 'string' ? body.consensusMode.trim() : '', body.preferredServices, body.compareStrategies
+    );
+    if ('error' in strategy) {
+      return json({ error: strategy.error }, { status: 400 });
+    }
+
+    const vocabulary = parseVocabulary(body.vocabulary);
+    if ('error' in vocabulary) {
+      return json({ error: vocabulary.error }, { status: 400 });
+    }
+
+    const reference = parseReference(body.reference);
+    if ('error' in reference) {
+      return json({ error: reference.error }, { status: 400 });
+    }
+
+    const adjudicator = body.adjudicate === true ? resolveAdjudicator(process.env) : null;
+    if (body.adjudicate === true && !adjudicator) {
+      return json({ error: 'LLM adjudication is not configured on this server (set ADJUDICATION_PROVIDER and ADJUDICATION_MODEL).' }, { status: 400 });
+    }
+
     // Collect service names
     const serviceSet = new Set<string>();
     for (const c of chunkTexts) {
@@ -54,26 +98,58 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
       for (const k of Object.keys(map)) serviceSet.add(k);
     }
 
-    // Concatenate texts per service
+    // Concatenate texts and file-time word timings per service
     const serviceNames = Array.from(serviceSet.values());
+    chunkTexts.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
     const results: TranscriptionResult[] = serviceNames.map((svcName) => {
-      const ordered = chunkTexts
-        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
-        .map((c) => (c.textsByService?.[svcName] ?? ''));
+      const ordered = chunkTexts.map((c) => chunkTranscript(c, svcName));
 
       const assembled = mergeWithOverlap(ordered);
       return {
         id: `${svcName}-assembled-${Date.now()}`,
         serviceName: svcName,
-        text: assembled,
+        text: assembled.text,
+        words: assembled.words,
         processingTimeMs: 0,
         timestamp: new Date(),
         metadata: { assembledFromChunks: true }
       };
     });
 
-    const engine = new ConsensusComparisonEngine();
-    const consensus = engine.compareTranscriptions(results);
+    const engine = createStrategyEngine();
+    const options = { mode: strategy.mode, vocabulary: vocabulary.terms, preferredServices: strategy.preferredServices };
+    const consensus = engine.compareTranscriptions(results, options);
+
+    // Each chunk was billed separately; report the sum
+    const costs: Record<string, number> = {};
+    let durationSeconds = 0;
+    for (const c of chunkTexts) {
+      for (const [svcName, cost] of Object.entries(c?.costByService || {})) {
+        if (typeof cost === 'number' && Number.isFinite(cost)) costs[svcName] = roundUsd((costs[svcName] ?? 0) + cost);
+      }
+      if (typeof c?.audioDurationSeconds === 'number' && Number.isFinite(c.audioDurationSeconds)) durationSeconds += c.audioDurationSeconds;
+    }
+    if (Object.keys(costs).length > 0) {
+      consensus.stats = {
+        ...consensus.stats,
+        audioDurationSeconds: durationSeconds || undefined,
+        durationSource: 'chunk-sum',
+        costByService: costs,
+        totalCostUsd: roundUsd(Object.values(costs).reduce((sum, c) => sum + c, 0))
+      };
+    }
+    if (adjudicator) {
+      const adjudication = await adjudicateContestedSpans(adjudicator, consensus, { signal: request.signal });
+      consensus.reasoning.steps.push(adjudicationStep(adjudication, consensus.reasoning.steps.length + 1));
+    }
+    if (reference.reference) {
+      consensus.evaluation = evaluateAgainstReference(reference.reference, consensus.finalText, results);
+      consensus.reasoning.steps.push(evaluationStep(consensus.evaluation, consensus.reasoning.steps.length + 1));
+    }
+    if (strategy.compareStrategies.length > 0) {
+      consensus.strategies = compareStrategies(engine, results, options, consensus, strategy.compareStrategies, reference.reference);
+      consensus.reasoning.steps.push(strategiesStep(consensus.strategies, consensus.reasoning.steps.length + 1));
+    }
     return json(consensus);
   } catch (e) {
     const msg = e instanceof Error ? e.message : 'Unknown error';
@@ -82,13 +158,35 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 };
 
 // --- helpers ---
-function mergeWithOverlap(chunks: string[]): string {
+interface ChunkTranscript {
+  text: string;
+  /** In file time; null when the service reported no timings for this chunk. */
+  words: TranscriptionWord[] | null;
+}
+
+function chunkTranscript(
+  chunk: { textsByService: Record<string, string>; wordsByService?: Record<string, unknown>; startMs?: number },
+  svcName: string
+): ChunkTranscript {
+  const raw = chunk.wordsByService?.[svcName];
+  const offsetMs = typeof chunk.startMs === 'number' && Number.isFinite(chunk.startMs) && chunk.startMs > 0 ? chunk.startMs : 0;
+  const words = Array.isArray(raw) && raw.length > 0 && raw.every(validateTranscriptionWord)
+    ? raw.map((w) => ({ ...w, startMs: w.startMs + offsetMs, endMs: w.endMs + offsetMs }))
+    : null;
+  return { text: chunk.textsByService?.[svcName] ?? '', words };
+}
+
+function mergeWithOverlap(chunks: ChunkTranscript[]): { text: string; words: TranscriptionWord[] } {
   let assembled = '';
+  const words: TranscriptionWord[] = [];
+  let timed = true;
   for (const next of chunks) {
-    const text = (next || '').trim();
+    const text = (next.text || '').trim();
     if (!text) continue;
+    if (!next.words) timed = false;
     if (!assembled) {
       assembled = text;
+      words.push(...(next.words ?? []));
       continue;
     }
     const overlap = computeOverlap(assembled, text);
@@ -97,8 +195,19 @@ function mergeWithOverlap(chunks: string[]): string {
     } else {
       assembled += ' ' + text;
     }
+    // The overlapping words are already in from the previous chunk
+    words.push(...(next.words ?? []).slice(wordsWithin(text, overlap)));
   }
-  return assembled.replace(/\s+/g, ' ').trim();
+  return { text: assembled.replace(/\s+/g, ' ').trim(), words: timed ? words : [] };
+}
+
+/** Whole words in the first `length` characters of `text`; a word cut by the boundary is not counted. */
+function wordsWithin(text: string, length: number): number {
+  if (length <= 0) return 0;
+  const prefix = text.slice(0, length);
+  const count = prefix.split(/\s+/).filter(Boolean).length;
+  const cutsWord = length < text.length && /\S/.test(text[length]) && /\S/.test(prefix[prefix.length - 1]);
+  return cutsWord ? count - 1 : count;
 }
 
 function computeOverlap(a: string, b: string): number {
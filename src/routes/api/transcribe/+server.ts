@@ -1,16 +1,41 @@
-import { PERFORMANCE_CONFIG } from '$lib/config';
+import { JOB_CONFIG, PERFORMANCE_CONFIG } from '$lib/config';
 import { json, type RequestHandler } from '@sveltejs/kit';
-import { checkRateLimit, getClientIP, validateCsrfFromForm } from '$lib/security';
-import type { AudioProcessor, TranscriptionResult } from '../../../contracts/processors';
-import { AssemblyAIProcessor } from '../../../implementations/assembly';
-import { ConsensusComparisonEngine } from '../../../implementations/comparison';
-import { DeepgramProcessor } from '../../../implementations/deepgram';
-import { ElevenLabsProcessor } from '../../../implementations/elevenlabs';
-import { GeminiProcessor } from '../../../implementations/gemini';
-import { WhisperProcessor } from '../../../implementations/whisper';
+import { checkRateLimit, getClientIP, validateCsrfFromForm, validateCsrfFromJson } from '$lib/security';
+import { processWithRetry, type RetryOutcome } from '$lib/retry';
+import { detectAudioDuration } from '$lib/audio-duration';
+import { formatUsd, getCostRates, selectWithinBudget, type SkippedService } from '$lib/cost';
+import { buildLanguageReport, parseRequestedLanguage, type RequestedLanguage } from '$lib/language';
+import { parseVocabulary } from '$lib/vocabulary';
+import { parseReference } from '$lib/evaluation';
+import { resolveAdjudicator } from '$lib/adjudication';
+import { knownUnhealthy } from '$lib/health';
+import { finalizeWithReliability, type ConsensusContext } from '$lib/consensus-pipeline';
+import {
+  addPendingTranscript,
+  finishJobIfReady,
+  jobWebhook,
+  newJob,
+  saveJob,
+  summarizeJob,
+  updateJob,
+  type TranscriptionJob
+} from '$lib/jobs';
+import {
+  supportsJobs,
+  type AudioProcessor,
+  type DeferredAudioProcessor,
+  type ProcessorSelection,
+  type TranscriptionResult
+} from '../../../contracts/processors';
+import {
+  createProcessorsForAudio,
+  createStrategyEngine,
+  parseStrategySelection,
+  type PreparedProcessors
+} from '../../../implementations';
 
-// Reusable comparison engine instance (stateless)
-const comparisonEngine = new ConsensusComparisonEngine();
+// Reusable comparison engine instance (stateless); runs the strategy each request asks for
+const comparisonEngine = createStrategyEngine();
 
 
 /**
@@ -38,19 +63,63 @@ export const POST: RequestHandler = async ({ request, cookies, fetch }) => {
       );
     }
 
-    const formData = await request.formData();
-    
-    // CSRF protection: double-submit cookie (stateless)
-    const csrfCookie = cookies.get('csrfToken');
-    if (!validateCsrfFromForm(formData, csrfCookie)) {
+    // Multipart form (browser uploads) or JSON (scripts; audio by URL only)
+    const fields = await readTranscribeFields(request, cookies.get('csrfToken'));
+    if (!fields) {
+      // CSRF protection: double-submit cookie (stateless)
       return json(
         { error: 'Request could not be processed. Please try again.' },
         { status: 403 }
       );
     }
 
-    const audioFile = formData.get('audio') as File | null;
-    const audioUrl = (formData.get('audioUrl') as string | null)?.trim() || '';
+    // Consensus strategy, and optionally others to compare it with
+    const strategy = parseStrategySelection(fields.consensusMode, fields.preferredServices, fields.compareStrategies);
+    if ('error' in strategy) {
+      return json({ error: strategy.error }, { status: 400 });
+    }
+
+    // Optional cap on the estimated cost of this request, in USD
+    const maxBudgetUsd = fields.maxBudgetUsd ? Number(fields.maxBudgetUsd) : undefined;
+    if (maxBudgetUsd !== undefined && (!Number.isFinite(maxBudgetUsd) || maxBudgetUsd < 0)) {
+      return json({ error: `Invalid maxBudgetUsd: ${fields.maxBudgetUsd}` }, { status: 400 });
+    }
+
+    // Spoken language: 'auto' (default) lets the providers detect it
+    const requestedLanguage = parseRequestedLanguage(fields.language);
+    if ('error' in requestedLanguage) {
+      return json({ error: requestedLanguage.error }, { status: 400 });
+    }
+    const { language } = requestedLanguage;
+    const excludeLanguageMismatches = fields.excludeLanguageMismatches !== 'false';
+
+    // Optional custom vocabulary, boosted in every provider that supports it
+    const parsedVocabulary = parseVocabulary(fields.vocabulary);
+    if ('error' in parsedVocabulary) {
+      return json({ error: parsedVocabulary.error }, { status: 400 });
+    }
+    const vocabulary = parsedVocabulary.terms;
+
+    // Optional ground truth: the response then scores every service and the consensus against it
+    const parsedReference = parseReference(fields.reference);
+    if ('error' in parsedReference) {
+      return json({ error: parsedReference.error }, { status: 400 });
+    }
+
+    // Optional LLM adjudication of contested spans, with the model configured on the server
+    const adjudicate = fields.adjudicate === 'true';
+    if (adjudicate && !resolveAdjudicator(process.env)) {
+      return json({ error: 'LLM adjudication is not configured on this server (set ADJUDICATION_PROVIDER and ADJUDICATION_MODEL).' }, { status: 400 });
+    }
+
+    // Optional service subset and per-service provider options
+    const selection = parseSelection(fields);
+    if ('error' in selection) {
+      return json({ error: selection.error }, { status: 400 });
+    }
+
+    const audioFile = fields.audio;
+    const audioUrl = fields.audioUrl;
     let fileForProcessing: File | null = null;
 
     if (audioFile) {
@@ -58,7 +127,7 @@ export const POST: RequestHandler = async ({ request, cookies, fetch }) => {
     } else if (audioUrl) {
       // Server-side fetch of the remote audio to bypass client upload limits
       try {
-        const resp = await fetch(audioUrl);
+        const resp = await fetch(audioUrl, { signal: request.signal });
         if (!resp.ok) {
           return json({ error: `Failed to fetch audio from URL (${resp.status})` }, { status: 400 });
         }
@@ -77,57 +146,172 @@ export const POST: RequestHandler = async ({ request, cookies, fetch }) => {
       return json({ error: 'No audio file or URL provided.' }, { status: 400 });
     }
 
-    const processors = initializeProcessors();
-    if (processors.length === 0) {
+    const { instances: configured, errors: selectionErrors } = await initializeProcessors(fileForProcessing, selection);
+    if (selectionErrors.length > 0) {
+      return json({ error: selectionErrors.join(' ') }, { status: 400 });
+    }
+    if (configured.length === 0) {
       return json({ error: 'No AI services are configured on the server.' }, { status: 500 });
     }
 
-  const results = await processWithAllAIs(processors, fileForProcessing);
-    const successfulResults = results.filter((r): r is TranscriptionResult => r !== null);
+    // Leave out services whose provider limits cannot take this file
+    const skippedServices: SkippedService[] = [];
+    const fileSize = fileForProcessing.size;
+    const fittingProcessors = configured
+      .filter(({ registration, processor }) => {
+        const fits = fileSize <= registration.capabilities.maxFileSizeBytes;
+        if (!fits) {
+          skippedServices.push({
+            serviceName: processor.serviceName,
+            reason: `File is ${fileSize} bytes, over its ${registration.capabilities.maxFileSizeBytes} byte limit.`
+          });
+        }
+        return fits;
+      })
+      .map(({ processor }) => processor);
+    if (fittingProcessors.length === 0) {
+      return json({ error: 'The file is too large for every configured AI service.' }, { status: 400 });
+    }
+
+    // Then the services the last health probe (GET /api/health) found down or rejecting their key
+    const liveProcessors: AudioProcessor[] = [];
+    for (const processor of fittingProcessors) {
+      const health = await knownUnhealthy(process.env, processor.serviceName);
+      if (health) {
+        skippedServices.push({
+          serviceName: processor.serviceName,
+          reason: `${health.status === 'auth-failed' ? 'Credentials rejected' : 'Service down'} at the last health check (${health.checkedAt}): ${health.error ?? 'unknown error'}`
+        });
+      } else {
+        liveProcessors.push(processor);
+      }
+    }
+    if (liveProcessors.length === 0) {
+      return json({ error: 'Every selected AI service failed its last health check. Try again shortly.', skippedServices }, { status: 503 });
+    }
+
+    // Then the services the budget cannot pay for, cheapest first
+    const detectedDuration = await detectAudioDuration(fileForProcessing);
+    const budget = await selectWithinBudget(liveProcessors, detectedDuration, maxBudgetUsd);
+    skippedServices.push(...budget.skipped);
+    const processors = budget.selected;
+    if (processors.length === 0) {
+      return json({ error: `No AI service fits the ${formatUsd(maxBudgetUsd ?? 0)} budget.`, skippedServices }, { status: 400 });
+    }
+
+    // Translation mode: services that translate natively also produce an English translation,
+    // paid from what the budget has left after the transcriptions
+    const translate = fields.translate === 'true';
+    let translators: AudioProcessor[] = [];
+    if (translate) {
+      const translating = new Set(configured.filter(i => i.registration.capabilities.translation).map(i => i.processor.serviceName));
+      const capable = processors.filter(p => translating.has(p.serviceName));
+      if (capable.length === 0) {
+        const names = configured.filter(i => translating.has(i.processor.serviceName)).map(i => i.processor.serviceName);
+        return json({ error: `None of the selected services can translate. Services that can: ${names.join(', ') || 'none configured'}.` }, { status: 400 });
+      }
+      const estimatedTotal = Object.values(budget.estimatedCostByService).reduce((sum, cost) => sum + cost, 0);
+      const remainingBudget = maxBudgetUsd === undefined ? undefined : Math.max(0, maxBudgetUsd - estimatedTotal);
+      const translationBudget = await selectWithinBudget(capable, detectedDuration, remainingBudget);
+      translators = translationBudget.selected;
+      skippedServices.push(...translationBudget.skipped.map(s => ({ ...s, serviceName: `${s.serviceName} translation` })));
+    }
+    skippedServices.forEach(s => console.warn(`${s.serviceName} skipped: ${s.reason}`));
+
+    const context: ConsensusContext = {
+      consensusMode: strategy.mode,
+      preferredServices: strategy.preferredServices,
+      compareStrategies: strategy.compareStrategies,
+      language,
+      excludeLanguageMismatches,
+      vocabulary,
+      translate,
+      reference: parsedReference.reference,
+      adjudicate,
+      hintedByService: {},
+      detectedDuration,
+      costRates: await getCostRates(processors),
+      estimatedCostByService: budget.estimatedCostByService,
+      maxBudgetUsd,
+      skippedServices,
+      serviceAttempts: []
+    };
+
+    // Long recordings: services that support provider jobs are submitted as jobs and finish later
+    const useJobs = fields.asyncJob === 'true'
+      || (fields.asyncJob !== 'false' && detectedDuration.seconds > JOB_CONFIG.LONG_AUDIO_THRESHOLD_SECONDS);
+    const deferred = useJobs ? processors.filter(supportsJobs) : [];
+    const job = deferred.length > 0 ? newJob(process.env, context) : null;
+    if (job) {
+      await submitJobs(job, deferred, audioUrl || fileForProcessing, request.signal, { language, vocabulary });
+    }
+    // Saved before the immediate services run, so a provider callback arriving meanwhile finds the job
+    const jobSaved = job !== null && job.pending.length > 0;
+    if (job && jobSaved) {
+      job.awaitingRequest = true;
+      await saveJob(process.env, job);
+    }
+
+    // request.signal aborts when the client disconnects (where the runtime supports it),
+    // cancelling every provider call still in flight.
+    const immediate = processors.filter(p => !supportsJobs(p) || !deferred.includes(p));
+    const detectsLanguage = new Set(configured.filter(i => i.registration.capabilities.languageDetection).map(i => i.processor.serviceName));
+    const [{ outcomes, hintedByService }, translationOutcomes] = await Promise.all([
+      processWithAllAIs(immediate, fileForProcessing, request.signal, { language, vocabulary }, detectsLanguage),
+      translateWithAllAIs(translators, fileForProcessing, request.signal, { language, vocabulary })
+    ]);
+    const immediateAttempts: ConsensusContext['serviceAttempts'] = [
+      ...immediate.map((processor, i) => ({
+        serviceName: processor.serviceName,
+        succeeded: outcomes[i].result !== null,
+        attempts: outcomes[i].attempts
+      })),
+      ...translators.map((processor, i) => ({
+        serviceName: processor.serviceName,
+        succeeded: translationOutcomes[i].result !== null,
+        attempts: translationOutcomes[i].attempts,
+        task: 'translate' as const
+      }))
+    ];
+    Object.assign(context.hintedByService, hintedByService);
+    context.serviceAttempts.unshift(...immediateAttempts);
+    const successfulResults = outcomes
+      .map(outcome => outcome.result)
+      .filter((r): r is TranscriptionResult => r !== null);
+    const translations = translationOutcomes
+      .map(outcome => outcome.result)
+      .filter((r): r is TranscriptionResult => r !== null);
+
+    // Merged even when the client has gone, so the job does not wait on this request until its deadline
+    const storedJob = job && jobSaved
+      ? await updateJob(process.env, job.id, async stored => {
+        Object.assign(stored.context.hintedByService, hintedByService);
+        stored.context.serviceAttempts.unshift(...immediateAttempts);
+        stored.results.push(...successfulResults);
+        stored.translations = translations;
+        stored.awaitingRequest = false;
+        // Every deferred transcript may already have reported back
+        await finishJobIfReady(process.env, stored, comparisonEngine);
+      })
+      : null;
+
+    if (request.signal.aborted) {
+      // Nobody is waiting for a consensus any more
+      return json({ error: 'Request cancelled by the client.' }, { status: 499 });
+    }
+
+    if (storedJob) {
+      if (storedJob.status === 'completed') return json(storedJob.result);
+      if (storedJob.status === 'failed') return json({ error: storedJob.error }, { status: 500 });
+      // Finished by /api/assemblyai/webhook or by polling GET /api/jobs/[id]
+      return json({ ...summarizeJob(storedJob), statusUrl: `/api/jobs/${storedJob.id}` }, { status: 202 });
+    }
 
     if (successfulResults.length === 0) {
       return json({ error: 'All AI services failed to process the audio file.' }, { status: 500 });
     }
 
-    let consensusResult;
-    try {
-        consensusResult = comparisonEngine.compareTranscriptions(successfulResults);
-    } catch (consensusError) {
-        console.warn('Consensus engine failed, using fallback.', consensusError);
-        // Fallback: pick the fastest successful result
-        const bestResult = successfulResults.reduce((best, cur) =>
-            (cur.processingTimeMs || Infinity) < (best.processingTimeMs || Infinity) ? cur : best
-        );
-
-        const withConf = successfulResults.filter(r => r.confidence !== undefined);
-        const averageConfidence = withConf.length
-            ? withConf.reduce((s, r) => s + (r.confidence ?? 0), 0) / withConf.length
-            : 0;
-
-        consensusResult = {
-            finalText: bestResult.text,
-            consensusConfidence: bestResult.confidence ?? 0,
-            individualResults: successfulResults,
-            disagreements: [],
-            stats: {
-                totalProcessingTimeMs: Math.max(...successfulResults.map(r => r.processingTimeMs || 0)),
-                servicesUsed: successfulResults.length,
-                averageConfidence: averageConfidence,
-                disagreementCount: 0
-            },
-            reasoning: {
-                finalReasoning: `Consensus algorithm failed. Fallback to fastest provider: ${bestResult.serviceName}.`,
-                steps: [{
-                    stepNumber: 1,
-                    description: 'The main consensus engine failed. Using fallback logic.',
-                    data: {
-                        selectedService: bestResult.serviceName,
-                        error: consensusError instanceof Error ? consensusError.message : String(consensusError)
-                    },
-                }]
-            }
-        };
-    }
+    const consensusResult = await finalizeWithReliability(process.env, comparisonEngine, context, successfulResults, translations, request.signal);
 
     return json(consensusResult);
 
@@ -145,40 +329,213 @@ export const POST: RequestHandler = async ({ request, cookies, fetch }) => {
 };
 
 /**
- * Initializes and returns a list of available AI processors based on configured API keys.
+ * Request fields shared by the multipart form and the JSON variant of this endpoint.
  */
-function initializeProcessors(): AudioProcessor[] {
-  const processors: AudioProcessor[] = [];
-  if (process.env.OPENAI_API_KEY) processors.push(new WhisperProcessor({ apiKey: process.env.OPENAI_API_KEY }));
-  if (process.env.ASSEMBLYAI_API_KEY) processors.push(new AssemblyAIProcessor({ apiKey: process.env.ASSEMBLYAI_API_KEY }));
-  if (process.env.DEEPGRAM_API_KEY) processors.push(new DeepgramProcessor({ apiKey: process.env.DEEPGRAM_API_KEY }));
-  if (process.env.ELEVENLABS_API_KEY) processors.push(new ElevenLabsProcessor({ apiKey: process.env.ELEVENLABS_API_KEY }));
-  if (process.env.GEMINI_API_KEY) processors.push(new GeminiProcessor({ apiKey: process.env.GEMINI_API_KEY }));
-  return processors;
+interface TranscribeFields {
+  audio: File | null;
+  audioUrl: string;
+  consensusMode: string;
+  /** Service names for 'preferred-service-with-fallback'; an array in JSON, a JSON array or comma separated text in forms. */
+  preferredServices: unknown;
+  /** 'all' or the strategies to run alongside `consensusMode`, in the same formats as `preferredServices`. */
+  compareStrategies: unknown;
+  maxBudgetUsd: string;
+  /** Service names; a JSON array (or repeated fields) in forms, an array in JSON. */
+  services: unknown;
+  /** `{ [serviceName]: { option: value } }`; a JSON string in forms, an object in JSON. */
+  serviceOptions: unknown;
+  /** 'auto' or a language code/name; empty means 'auto'. */
+  language: string;
+  /** 'false' keeps services that detected another language in the consensus. */
+  excludeLanguageMismatches: string;
+  /** Terms to boost; an array in JSON, a JSON array or comma/newline separated text in forms. */
+  vocabulary: unknown;
+  /** 'true' always runs job-capable services as provider jobs, 'false' never; empty decides by audio length. */
+  asyncJob: string;
+  /** 'true' also produces an English translation with its own consensus. */
+  translate: string;
+  /** Reference transcript; text, or a .txt file in forms. */
+  reference: unknown;
+  /** 'true' lets the configured language model adjudicate short contested spans. */
+  adjudicate: string;
 }
 
 /**
- * Processes the audio file with all available AI services in parallel and with timeouts.
+ * Reads the request body into TranscribeFields, or returns null when the CSRF token does not match.
  */
-async function processWithAllAIs(processors: AudioProcessor[], file: File): Promise<(TranscriptionResult | null)[]> {
-  const promises = processors.map(processor => processWithTimeout(processor, file));
-  return Promise.all(promises);
+async function readTranscribeFields(request: Request, csrfCookie: string | undefined): Promise<TranscribeFields | null> {
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || !validateCsrfFromJson(body, csrfCookie)) return null;
+    return {
+      audio: null,
+      audioUrl: typeof body.audioUrl === 'string' ? body.audioUrl.trim() : '',
+      consensusMode: typeof body.consensusMode === 'string' ? body.consensusMode.trim() : '',
+      preferredServices: body.preferredServices,
+      compareStrategies: body.compareStrategies,
+      maxBudgetUsd: body.maxBudgetUsd === undefined || body.maxBudgetUsd === null ? '' : String(body.maxBudgetUsd),
+      services: body.services,
+      serviceOptions: body.serviceOptions,
+      language: typeof body.language === 'string' ? body.language.trim() : '',
+      excludeLanguageMismatches: body.excludeLanguageMismatches === undefined ? '' : String(body.excludeLanguageMismatches),
+      vocabulary: body.vocabulary,
+      asyncJob: body.asyncJob === undefined ? '' : String(body.asyncJob),
+      translate: body.translate === undefined ? '' : String(body.translate),
+      reference: body.reference,
+      adjudicate: body.adjudicate === undefined ? '' : String(body.adjudicate)
+    };
+  }
+
+  const formData = await request.formData();
+  if (!validateCsrfFromForm(formData, csrfCookie)) return null;
+  const text = (name: string) => (formData.get(name) as string | null)?.trim() || '';
+  const services = formData.getAll('services').map(String).filter(Boolean);
+  const reference = formData.get('reference');
+  return {
+    audio: formData.get('audio') as File | null,
+    audioUrl: text('audioUrl'),
+    consensusMode: text('consensusMode'),
+    preferredServices: text('preferredServices'),
+    compareStrategies: text('compareStrategies'),
+    maxBudgetUsd: text('maxBudgetUsd'),
+    services: services.length === 1 && services[0].trim().startsWith('[') ? services[0] : services.length ? services : undefined,
+    serviceOptions: text('serviceOptions') || undefined,
+    language: text('language'),
+    excludeLanguageMismatches: text('excludeLanguageMismatches'),
+    vocabulary: text('vocabulary'),
+    asyncJob: text('asyncJob'),
+    translate: text('translate'),
+    // A non-text upload stays a File, which the reference validation rejects
+    reference: reference instanceof File && (reference.type.startsWith('text/') || reference.name.endsWith('.txt'))
+      ? await reference.text()
+      : reference ?? undefined,
+    adjudicate: text('adjudicate')
+  };
 }
 
 /**
- * Wraps the processor's `processFile` call with a timeout.
+ * Validates the shape of the service selection; option values are validated per processor later.
  */
-async function processWithTimeout(processor: AudioProcessor, file: File): Promise<TranscriptionResult | null> {
+function parseSelection(fields: TranscribeFields): ProcessorSelection | { error: string } {
+  const parse = (value: unknown, name: string): unknown => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`${name} is not valid JSON.`);
+    }
+  };
+
   try {
-    return await Promise.race([
-      processor.processFile(file),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('Timeout')), PERFORMANCE_CONFIG.SERVICE_TIMEOUT_MS)
-      )
-    ]);
+    const services = parse(fields.services, 'services');
+    const serviceOptions = parse(fields.serviceOptions, 'serviceOptions');
+
+    if (services !== undefined && (!Array.isArray(services) || services.length === 0 || !services.every(s => typeof s === 'string' && s.trim()))) {
+      return { error: 'services must be a non-empty list of service names.' };
+    }
+    if (serviceOptions !== undefined && (
+      !serviceOptions || typeof serviceOptions !== 'object' || Array.isArray(serviceOptions) ||
+      !Object.values(serviceOptions).every(o => o && typeof o === 'object' && !Array.isArray(o))
+    )) {
+      return { error: 'serviceOptions must map service names to option objects.' };
+    }
+
+    return {
+      services: services === undefined ? undefined : (services as string[]).map(s => s.trim()),
+      serviceOptions: serviceOptions as ProcessorSelection['serviceOptions']
+    };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`${processor.serviceName} failed: ${errorMessage}`);
-    return null; // Return null for failed services
+    return { error: error instanceof Error ? error.message : 'Invalid service selection.' };
+  }
+}
+
+/**
+ * Creates the processors for this request from the processor registry: the selected configured
+ * services with their request options. With TRANSCRIBE_MODE=record they also save their provider
+ * responses; with TRANSCRIBE_MODE=replay they are rebuilt from the recordings for this audio and
+ * make no network calls.
+ */
+async function initializeProcessors(file: File, selection: ProcessorSelection): Promise<PreparedProcessors> {
+  return createProcessorsForAudio(file, process.env, selection);
+}
+
+/**
+ * Processes the audio file with all available AI services in parallel, retrying retryable failures
+ * within each service's time budget.
+ *
+ * With language 'auto', services that cannot detect the language run after the ones that can,
+ * hinted with the language most of those detected. Outcomes keep the order of `processors`.
+ */
+async function processWithAllAIs(
+  processors: AudioProcessor[],
+  file: File,
+  signal: AbortSignal,
+  { language, vocabulary }: { language: RequestedLanguage; vocabulary: string[] },
+  detectsLanguage: Set<string>
+): Promise<{ outcomes: RetryOutcome[]; hintedByService: Record<string, string | undefined> }> {
+  const hintedByService: Record<string, string | undefined> = {};
+  const run = async (group: AudioProcessor[], groupLanguage: RequestedLanguage) => {
+    group.forEach(p => (hintedByService[p.serviceName] = groupLanguage === 'auto' ? undefined : groupLanguage));
+    const outcomes = await Promise.all(group.map(processor => processWithRetry(processor, file, { signal, language: groupLanguage, vocabulary })));
+    return new Map(group.map((processor, i) => [processor, outcomes[i]]));
+  };
+
+  const detecting = processors.filter(p => detectsLanguage.has(p.serviceName));
+  const hintOnly = processors.filter(p => !detectsLanguage.has(p.serviceName));
+  let byProcessor: Map<AudioProcessor, RetryOutcome>;
+  if (language !== 'auto' || detecting.length === 0 || hintOnly.length === 0) {
+    byProcessor = await run(processors, language);
+  } else {
+    byProcessor = await run(detecting, 'auto');
+    const detected = buildLanguageReport('auto', [...byProcessor.values()].map(o => o.result).filter((r): r is TranscriptionResult => r !== null), {}).expected;
+    for (const [processor, outcome] of await run(hintOnly, detected ?? 'auto')) byProcessor.set(processor, outcome);
   }
-}
\ No newline at end of file
+  return { outcomes: processors.map(p => byProcessor.get(p)!), hintedByService };
+}
+
+/**
+ * Asks each translating service for an English translation, with the same retries and time budget
+ * as transcription. A known spoken language is passed on as a hint.
+ */
+async function translateWithAllAIs(
+  processors: AudioProcessor[],
+  file: File,
+  signal: AbortSignal,
+  { language, vocabulary }: { language: RequestedLanguage; vocabulary: string[] }
+): Promise<RetryOutcome[]> {
+  return Promise.all(processors.map(processor => processWithRetry(processor, file, { signal, language, vocabulary, task: 'translate' })));
+}
+
+/**
+ * Submits the audio to each job-capable service; a public URL is passed on for the provider to
+ * download itself. Submissions that fail are recorded as failed services, the rest become the
+ * job's pending transcripts.
+ */
+async function submitJobs(
+  job: TranscriptionJob,
+  processors: DeferredAudioProcessor[],
+  source: File | string,
+  signal: AbortSignal,
+  { language, vocabulary }: { language: RequestedLanguage; vocabulary: string[] }
+): Promise<void> {
+  const webhook = jobWebhook(process.env, job);
+  await Promise.all(processors.map(async processor => {
+    const startedAt = Date.now();
+    job.context.hintedByService[processor.serviceName] = language === 'auto' ? undefined : language;
+    try {
+      const transcriptId = await processor.submitJob(source, { signal, language, vocabulary }, webhook);
+      addPendingTranscript(job, processor.serviceName, transcriptId);
+    } catch (error) {
+      job.context.serviceAttempts.push({
+        serviceName: processor.serviceName,
+        succeeded: false,
+        attempts: [{
+          attempt: 1,
+          outcome: signal.aborted ? 'aborted' : 'fatal-error',
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }]
+      });
+    }
+  }));
+}
@@ -1,6 +1,29 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
+
+/**
+ * Hands /api/live WebSocket upgrades to src/routes/api/live/socket.ts in `vite dev`.
+ * SvelteKit endpoints cannot accept upgrades, and serverless hosts cannot hold the socket.
+ */
+function liveTranscriptionSocket(): Plugin {
+  return {
+    name: 'live-transcription-socket',
+    configureServer(server) {
+      process.env.LIVE_SOCKET_HOSTED = 'true';
+      server.httpServer?.on('upgrade', async (request, socket, head) => {
+        if (new URL(request.url ?? '/', 'http://localhost').pathname !== '/api/live') return;
+        try {
+          const { handleLiveUpgrade } = await server.ssrLoadModule('/src/routes/api/live/socket.ts');
+          handleLiveUpgrade(request, socket, head);
+        } catch (error) {
+          console.error('Live transcription socket failed to load:', error);
+          socket.destroy();
+        }
+      });
+    }
+  };
+}
 
 export default defineConfig({
-  plugins: [sveltekit()]
-});
\ No newline at end of file
+  plugins: [sveltekit(), liveTranscriptionSocket()]
+});